@@ -5,4 +5,43 @@ export default {
   refreshTokenPublicKey: "REFRESH_PUBLIC_KEY",
   dbUri: "DB_CONNECTION",
   port: "PORT",
+  clientUrl: "CLIENT_URL",
+  legacyPriceCurrency: "LEGACY_PRICE_CURRENCY",
+  productTrash: {
+    retention: { __name: "PRODUCT_TRASH_RETENTION", __format: "number" },
+  },
+  images: {
+    storage: "IMAGE_STORAGE",
+    local: {
+      publicUrl: "IMAGE_PUBLIC_URL",
+    },
+    s3: {
+      bucket: "S3_BUCKET",
+      region: "S3_REGION",
+      endpoint: "S3_ENDPOINT",
+      accessKeyId: "S3_ACCESS_KEY_ID",
+      secretAccessKey: "S3_SECRET_ACCESS_KEY",
+      publicUrl: "S3_PUBLIC_URL",
+    },
+  },
+  webhooks: {
+    allowPrivateUrls: {
+      __name: "WEBHOOK_ALLOW_PRIVATE_URLS",
+      __format: "boolean",
+    },
+  },
+  payments: {
+    provider: "PAYMENT_PROVIDER",
+    webhookSecret: "PAYMENT_WEBHOOK_SECRET",
+  },
+  mail: {
+    transport: "MAIL_TRANSPORT",
+    from: "MAIL_FROM",
+    smtp: {
+      host: "SMTP_HOST",
+      port: "SMTP_PORT",
+      user: "SMTP_USER",
+      password: "SMTP_PASSWORD",
+    },
+  },
 };
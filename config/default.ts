@@ -4,6 +4,155 @@ export default {
   saltWorkFactor: 10,
   accessTokenTtl: "15m",
   refreshTokenTtl: "1y",
+  // Seconds a rotated refresh token may still be used, so concurrent refreshes
+  // get the same new token instead of looking like a replayed one
+  refreshTokenGracePeriod: 30,
+  // Reissue tokens inside deserializeUser when the access token has expired
+  // and an x-refresh header is sent. Disable to only allow POST /api/sessions/refresh
+  implicitTokenRefresh: true,
+  refreshTokenCookieName: "refreshToken",
+  // Value for express' "trust proxy" setting, so req.ip is the client's address
+  trustProxy: false,
+  // Budgets for the rateLimit middleware, window in seconds
+  rateLimits: {
+    createUser: { limit: 5, window: 60 * 60 },
+    createSession: { limit: 20, window: 15 * 60 },
+    refreshSession: { limit: 60, window: 15 * 60 },
+    sendEmail: { limit: 5, window: 60 * 60 },
+    writeProduct: { limit: 60, window: 60 },
+    reserveStock: { limit: 30, window: 60 },
+  },
+  loginProtection: {
+    // memory, or mongo to share attempts between instances
+    store: "memory",
+    // Failures older than this are forgotten, in seconds
+    window: 60 * 60,
+    // After the free attempts each failure doubles the wait, in seconds
+    backoffBase: 1,
+    maxBackoff: 5 * 60,
+    account: {
+      freeAttempts: 3,
+      lockoutThreshold: 10,
+      lockoutDuration: 15 * 60,
+    },
+    // Higher as many users can share an address
+    ip: {
+      freeAttempts: 20,
+    },
+  },
+  // Products saved before prices had a currency are converted to minor units
+  // of this currency at startup
+  legacyPriceCurrency: "USD",
+  productTrash: {
+    // Deleted products can be restored for this long, in seconds
+    retention: 60 * 60 * 24 * 30, // 30 days
+    // How often products past the retention period are purged, in seconds
+    purgeInterval: 60 * 60,
+  },
+  images: {
+    // local or s3
+    storage: "local",
+    maxSize: 5 * 1024 * 1024, // 5MB, in bytes
+    allowedTypes: ["image/jpeg", "image/png", "image/webp"],
+    // Thumbnails are resized to fit inside these widths, in pixels
+    thumbnails: {
+      small: 200,
+      medium: 600,
+    },
+    local: {
+      directory: "uploads",
+      // Files are served by the app under this URL's path
+      publicUrl: "http://localhost:1337/uploads",
+    },
+    s3: {
+      bucket: "product-images",
+      region: "us-east-1",
+      // Defaults to a local stand-in such as MinIO, empty for AWS
+      endpoint: "http://localhost:9000",
+      forcePathStyle: true,
+      accessKeyId: "",
+      secretAccessKey: "",
+      // Defaults to the endpoint and bucket when empty
+      publicUrl: "",
+    },
+  },
+  inventory: {
+    // How long reserved units are held, in seconds
+    reservationTtl: 15 * 60,
+    // How often expired reservations give their units back, in seconds
+    expiryInterval: 60,
+    // Units one user may hold in active reservations at the same time
+    maxReservedPerUser: 100,
+  },
+  cart: {
+    // Different products one cart can hold
+    maxItems: 50,
+  },
+  idempotency: {
+    // How long responses are replayed for a reused Idempotency-Key, in seconds
+    ttl: 24 * 60 * 60,
+    // A retry can take over a key whose request hasn't answered after this,
+    // in seconds
+    lockTimeout: 60,
+  },
+  webhooks: {
+    // How often pending deliveries are sent, in seconds
+    deliveryInterval: 5,
+    batchSize: 20,
+    // How long an endpoint has to answer, in seconds
+    timeout: 10,
+    // Failed deliveries are retried after 30s, 1m, 2m... up to 6 hours
+    maxAttempts: 8,
+    retryDelay: 30,
+    maxRetryDelay: 6 * 60 * 60,
+    // How long the delivery log is kept, in seconds
+    deliveryRetention: 30 * 24 * 60 * 60,
+    maxPerUser: 10,
+    // Lets webhooks point at localhost and private networks, for development
+    allowPrivateUrls: false,
+  },
+  payments: {
+    // "fake" settles payments through its own signed webhooks, "disabled"
+    // leaves out the payment routes so orders can't be paid
+    provider: "fake",
+    // Shared with the provider to sign webhooks
+    webhookSecret: "change-me",
+    // Webhooks signed longer ago than this are refused, in seconds
+    signatureTolerance: 5 * 60,
+  },
+  facets: {
+    // Lower bounds of the price ranges in minor units, prices above the last
+    // one are counted together
+    priceBuckets: [0, 1000, 5000, 10000, 50000, 100000],
+    // Only the most used tags are counted
+    tagLimit: 20,
+  },
+  // Used to build the links sent in emails
+  clientUrl: "http://localhost:3000",
+  passwordResetTokenTtl: 60 * 60, // 1 hour, in seconds
+  emailVerification: {
+    // Refuse to create sessions for users that haven't verified their email
+    required: false,
+    tokenTtl: 60 * 60 * 24, // 1 day, in seconds
+    // Minimum time between two verification emails, in seconds
+    resendInterval: 60,
+  },
+  mail: {
+    // console, file or smtp. console only logs the recipient and subject in
+    // production, file is refused there
+    transport: "console",
+    from: "REST API <no-reply@example.com>",
+    // Where the file transport writes messages
+    fileDirectory: "mail",
+    smtp: {
+      // Defaults to a local stand-in such as MailHog
+      host: "localhost",
+      port: 1025,
+      secure: false,
+      user: "",
+      password: "",
+    },
+  },
   accessTokenPrivateKey: ``,
   accessTokenPublicKey: ``,
   refreshTokenPrivateKey: ``,
@@ -1 +1,11 @@
-export default {};
+export default {
+  // Behind Caddy
+  trustProxy: 1,
+  loginProtection: {
+    store: "mongo",
+  },
+  payments: {
+    // There is no real provider yet, set PAYMENT_PROVIDER once there is one
+    provider: "disabled",
+  },
+};
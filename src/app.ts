@@ -7,17 +7,61 @@ import connect from "./utils/connect";
 import logger from "./utils/logger";
 import routes from "./routes";
 import deserializeUser from "./middleware/deserializeUser";
+import requestId from "./middleware/requestId";
+import accessLog from "./middleware/accessLog";
+import bindRequestContext from "./middleware/requestContext";
+import errorHandler, { notFoundHandler } from "./middleware/errorHandler";
 import { restResponseTimeHistogram, startMetricsServer } from "./utils/metrics";
+import { startProductPurge } from "./utils/productPurge";
+import { migrateLegacyPrices } from "./utils/priceMigration";
+import { migrateLegacyUsers } from "./utils/userMigration";
+import { migrateSearchWords } from "./utils/searchMigration";
+import { startReservationExpiry } from "./utils/reservationExpiry";
+import { startWebhookDelivery } from "./utils/webhookDelivery";
+import { keepRawBody } from "./utils/rawBody";
+import { assertPaymentConfig } from "./utils/payments";
+import { assertMailConfig } from "./utils/mailer";
 import swaggerDocs from "./utils/swagger";
 
 const port = config.get<number>("port");
 
+assertPaymentConfig();
+assertMailConfig();
+
 const app = express();
 
-app.use(express.json());
+app.set("trust proxy", config.get("trustProxy"));
+
+app.use(requestId);
+
+app.use(accessLog);
+
+app.use(
+  express.json({
+    type: [
+      "application/json",
+      "application/merge-patch+json",
+      "application/json-patch+json",
+    ],
+    // Webhook signatures are computed over the exact bytes that were sent
+    verify: keepRawBody,
+  })
+);
+
+// Uploaded images, when they are stored on the local filesystem
+if (config.get("images.storage") === "local") {
+  const { directory, publicUrl } = config.get<{
+    directory: string;
+    publicUrl: string;
+  }>("images.local");
+
+  app.use(new URL(publicUrl).pathname, express.static(directory));
+}
 
 app.use(deserializeUser);
 
+app.use(bindRequestContext);
+
 app.use(
   responseTime((req: Request, res: Response, time: number) => {
     if (req?.route?.path) {
@@ -38,9 +82,25 @@ app.listen(port, async () => {
 
   await connect();
 
+  await migrateLegacyPrices();
+
+  await migrateLegacyUsers();
+
+  await migrateSearchWords();
+
   routes(app);
 
   startMetricsServer();
 
+  startProductPurge();
+
+  startReservationExpiry();
+
+  startWebhookDelivery();
+
   swaggerDocs(app, port);
+
+  // Registered last so they handle anything the routes didn't
+  app.use(notFoundHandler);
+  app.use(errorHandler);
 });
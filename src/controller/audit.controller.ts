@@ -0,0 +1,13 @@
+import { Request, Response } from "express";
+import { ListAuditEventsInput } from "../schema/audit.schema";
+import { findAuditEvents } from "../service/audit.service";
+
+export async function listAuditEventsHandler(req: Request, res: Response) {
+  // validateResource has already replaced the raw query string values
+  const { cursor, limit, ...filters } =
+    req.query as unknown as ListAuditEventsInput["query"];
+
+  const page = await findAuditEvents(filters, { cursor, limit });
+
+  return res.send(page);
+}
@@ -0,0 +1,59 @@
+import { Request, Response } from "express";
+import { RemoveCartItemInput, SetCartItemInput } from "../schema/cart.schema";
+import {
+  clearCart,
+  findCart,
+  removeCartItem,
+  setCartItem,
+} from "../service/cart.service";
+import { findProduct } from "../service/product.service";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+export async function getCartHandler(req: Request, res: Response) {
+  const cart = await findCart(res.locals.user._id);
+
+  return res.send(cart);
+}
+
+export async function setCartItemHandler(
+  req: Request<SetCartItemInput["params"], {}, SetCartItemInput["body"]>,
+  res: Response
+) {
+  const productId = req.params.productId;
+
+  // Stock is only checked when the order is placed
+  const product = await findProduct({ productId });
+
+  if (!product) {
+    throw new NotFoundError("Product not found");
+  }
+
+  const cart = await setCartItem(
+    res.locals.user._id,
+    productId,
+    req.body.quantity
+  );
+
+  if (!cart) {
+    throw new ConflictError("The cart is full");
+  }
+
+  return res.send(cart);
+}
+
+export async function removeCartItemHandler(
+  req: Request<RemoveCartItemInput["params"]>,
+  res: Response
+) {
+  const userId = res.locals.user._id;
+
+  await removeCartItem(userId, req.params.productId);
+
+  return res.send(await findCart(userId));
+}
+
+export async function clearCartHandler(req: Request, res: Response) {
+  await clearCart(res.locals.user._id);
+
+  return res.sendStatus(200);
+}
@@ -0,0 +1,138 @@
+import { Request, Response } from "express";
+import {
+  CreateCategoryInput,
+  DeleteCategoryInput,
+  ReadCategoryInput,
+  UpdateCategoryInput,
+} from "../schema/category.schema";
+import {
+  createCategory,
+  deleteCategory,
+  findCategories,
+  findCategory,
+  updateCategory,
+} from "../service/category.service";
+import { countProducts } from "../service/product.service";
+import { diff, recordAuditEvent } from "../service/audit.service";
+import { auditContext } from "../utils/audit";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+
+export async function createCategoryHandler(
+  req: Request<{}, {}, CreateCategoryInput["body"]>,
+  res: Response
+) {
+  const ancestors = await ancestorsFor(req.body.parent);
+
+  const category = await createCategory({ ...req.body, ancestors });
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "category.create",
+    target: { type: "category", id: category.categoryId },
+    changes: diff(null, category.toJSON()),
+  });
+
+  return res.send(category);
+}
+
+export async function listCategoriesHandler(req: Request, res: Response) {
+  const categories = await findCategories();
+
+  return res.send(categories);
+}
+
+export async function getCategoryHandler(
+  req: Request<ReadCategoryInput["params"]>,
+  res: Response
+) {
+  const category = await findCategory({ categoryId: req.params.categoryId });
+
+  if (!category) {
+    throw new NotFoundError("Category not found");
+  }
+
+  return res.send(category);
+}
+
+export async function updateCategoryHandler(
+  req: Request<UpdateCategoryInput["params"], {}, UpdateCategoryInput["body"]>,
+  res: Response
+) {
+  const categoryId = req.params.categoryId;
+
+  const category = await findCategory({ categoryId });
+
+  if (!category) {
+    throw new NotFoundError("Category not found");
+  }
+
+  const ancestors = await ancestorsFor(req.body.parent);
+
+  // A category can't be moved below itself
+  if (req.body.parent === categoryId || ancestors.includes(categoryId)) {
+    throw new ConflictError("A category can't be moved into its own subtree");
+  }
+
+  const updatedCategory = await updateCategory(categoryId, {
+    ...req.body,
+    ancestors,
+  });
+
+  if (!updatedCategory) {
+    throw new NotFoundError("Category not found");
+  }
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "category.update",
+    target: { type: "category", id: categoryId },
+    changes: diff(category, updatedCategory),
+  });
+
+  return res.send(updatedCategory);
+}
+
+export async function deleteCategoryHandler(
+  req: Request<DeleteCategoryInput["params"]>,
+  res: Response
+) {
+  const categoryId = req.params.categoryId;
+
+  const category = await findCategory({ categoryId });
+
+  if (!category) {
+    throw new NotFoundError("Category not found");
+  }
+
+  if (await findCategory({ parent: categoryId })) {
+    throw new ConflictError("The category has subcategories");
+  }
+
+  // Includes products in the trash, they could still be restored
+  if (await countProducts({ category: categoryId })) {
+    throw new ConflictError("The category has products");
+  }
+
+  await deleteCategory({ categoryId });
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "category.delete",
+    target: { type: "category", id: categoryId },
+    changes: diff(category, null),
+  });
+
+  return res.sendStatus(200);
+}
+
+async function ancestorsFor(parentId: string | null) {
+  if (!parentId) return [];
+
+  const parent = await findCategory({ categoryId: parentId });
+
+  if (!parent) {
+    throw new BadRequestError("Parent category not found");
+  }
+
+  return [...parent.ancestors, parent.categoryId];
+}
@@ -0,0 +1,63 @@
+import { Request, Response } from "express";
+import {
+  ResendVerificationEmailInput,
+  VerifyEmailInput,
+} from "../schema/emailVerification.schema";
+import {
+  consumeEmailVerificationToken,
+  sendVerificationEmail,
+  verificationEmailRetryAfter,
+} from "../service/emailVerification.service";
+import { findUser, updateUser } from "../service/user.service";
+import { BadRequestError } from "../utils/errors";
+import { getLogger } from "../utils/requestContext";
+
+export async function resendVerificationEmailHandler(
+  req: Request<{}, {}, ResendVerificationEmailInput["body"]>,
+  res: Response
+) {
+  const message =
+    "If the email is registered and unverified, a link has been sent";
+
+  const user = await findUser({ email: req.body.email });
+
+  // Respond the same way either way so emails can't be enumerated
+  if (!user || user.verified || user.disabled) {
+    return res.status(202).send(message);
+  }
+
+  // A 429 would tell that the account exists, so just don't send again
+  if ((await verificationEmailRetryAfter(user._id)) > 0) {
+    return res.status(202).send(message);
+  }
+
+  try {
+    await sendVerificationEmail(user);
+  } catch (e: any) {
+    getLogger().error(e, "Could not send verification email");
+  }
+
+  return res.status(202).send(message);
+}
+
+export async function verifyEmailHandler(
+  req: Request<{}, {}, VerifyEmailInput["body"]>,
+  res: Response
+) {
+  const verificationToken = await consumeEmailVerificationToken(req.body.token);
+
+  if (!verificationToken) {
+    throw new BadRequestError("Invalid or expired token");
+  }
+
+  const user = await updateUser(
+    { _id: verificationToken.user },
+    { verified: true }
+  );
+
+  if (!user) {
+    throw new BadRequestError("Invalid or expired token");
+  }
+
+  return res.send(user);
+}
@@ -0,0 +1,289 @@
+import { Request, Response } from "express";
+import config from "config";
+import { omit } from "lodash";
+import { OrderDocument, OrderItem } from "../models/order.model";
+import {
+  ListOrdersInput,
+  UpdateOrderStatusInput,
+} from "../schema/order.schema";
+import { clearCart, findCart } from "../service/cart.service";
+import { refundOrderPayments } from "../service/payment.service";
+import {
+  cancelOrder,
+  createOrder,
+  findOrders,
+  fulfilOrder,
+  markOrderPaid,
+} from "../service/order.service";
+import {
+  findProduct,
+  findReservedQuantity,
+  releaseReservation,
+  reserveStock,
+} from "../service/product.service";
+import { recordAuditEvent } from "../service/audit.service";
+import { auditContext } from "../utils/audit";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+} from "../utils/errors";
+import { hasPermission } from "../utils/permissions";
+
+// Places an order for everything in the cart, holding the units until the
+// order is paid or cancelled
+export async function createOrderHandler(req: Request, res: Response) {
+  const userId = res.locals.user._id;
+
+  const cart = await findCart(userId);
+
+  if (!cart.items.length) {
+    throw new BadRequestError("The cart is empty");
+  }
+
+  const items: OrderItem[] = [];
+  let currency: string | undefined;
+
+  try {
+    for (const { product: productId, quantity } of cart.items) {
+      const product = await findProduct({ productId });
+
+      if (!product) {
+        throw new ConflictError(`${productId} is no longer available`);
+      }
+
+      if (currency && product.currency !== currency) {
+        throw new ConflictError(
+          "All the products of an order must have the same currency"
+        );
+      }
+
+      currency = product.currency;
+
+      const reservation = await reserveStock(productId, {
+        quantity,
+        user: userId,
+      });
+
+      if (!reservation) {
+        throw new ConflictError(`Not enough stock for ${productId}`);
+      }
+
+      // Prices are taken now, later changes don't affect the order
+      items.push({
+        product: productId,
+        seller: product.user,
+        title: product.title,
+        price: product.price,
+        quantity,
+        reservation: reservation.reservationId,
+      });
+    }
+
+    // The same cap as for reserving units directly, checked once everything
+    // is reserved
+    if (
+      (await findReservedQuantity(userId)) >
+      config.get<number>("inventory.maxReservedPerUser")
+    ) {
+      throw new ConflictError("Too many units reserved");
+    }
+  } catch (e) {
+    await Promise.all(
+      items.map(({ reservation }) => releaseReservation(reservation))
+    );
+    throw e;
+  }
+
+  const order = await createOrder(
+    {
+      user: userId,
+      items,
+      currency: currency as string,
+      total: items.reduce(
+        (total, { price, quantity }) => total + price * quantity,
+        0
+      ),
+    },
+    { changedBy: userId }
+  );
+
+  await clearCart(userId);
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "order.create",
+    target: { type: "order", id: order.orderId },
+  });
+
+  return res.send(order);
+}
+
+// The orders placed by the current user
+export async function listOrdersHandler(req: Request, res: Response) {
+  const { cursor, limit, status } =
+    req.query as unknown as ListOrdersInput["query"];
+
+  const page = await findOrders(
+    { user: res.locals.user._id, ...(status && { status }) },
+    { cursor, limit }
+  );
+
+  return res.send(page);
+}
+
+// The orders that contain products the current user sells, with only those
+// products
+export async function listSellerOrdersHandler(req: Request, res: Response) {
+  const userId = res.locals.user._id;
+  const { cursor, limit, status } =
+    req.query as unknown as ListOrdersInput["query"];
+
+  const page = await findOrders(
+    { sellers: userId, ...(status && { status }) },
+    { cursor, limit }
+  );
+
+  return res.send({
+    ...page,
+    data: page.data.map((order) => sellerView(order, userId)),
+  });
+}
+
+// Access is checked by the orderParticipant policy in routes.ts
+export async function getOrderHandler(req: Request, res: Response) {
+  const order = res.locals.order;
+  const user = res.locals.user;
+
+  if (
+    String(order.user) === String(user._id) ||
+    hasPermission(user, "orders:manage")
+  ) {
+    return res.send(order);
+  }
+
+  return res.send(sellerView(order, user._id));
+}
+
+// Until payments are taken by the API, orders are marked as paid by admins
+export async function payOrderHandler(
+  req: Request<UpdateOrderStatusInput["params"]>,
+  res: Response
+) {
+  const order = res.locals.order;
+
+  const updatedOrder = await markOrderPaid(order, {
+    changedBy: res.locals.user._id,
+  });
+
+  if (!updatedOrder) {
+    throw new ConflictError(`A ${order.status} order can't be paid`);
+  }
+
+  await recordStatusChange(req, res, updatedOrder);
+
+  if (updatedOrder.status === "cancelled") {
+    throw new ConflictError(
+      "The products are no longer in stock, the order has been cancelled"
+    );
+  }
+
+  return res.send(updatedOrder);
+}
+
+// Access is checked by the orderParticipant policy in routes.ts
+export async function fulfilOrderHandler(
+  req: Request<UpdateOrderStatusInput["params"]>,
+  res: Response
+) {
+  const order = res.locals.order;
+  const user = res.locals.user;
+
+  // Only an order where the user sells every product
+  const sellsEverything = order.items.every(
+    (item: OrderItem) => String(item.seller) === String(user._id)
+  );
+
+  if (!sellsEverything && !hasPermission(user, "orders:manage")) {
+    throw new ForbiddenError("You don't sell every product of this order");
+  }
+
+  const updatedOrder = await fulfilOrder(order, { changedBy: user._id });
+
+  if (!updatedOrder) {
+    throw new ConflictError(`A ${order.status} order can't be fulfilled`);
+  }
+
+  await recordStatusChange(req, res, updatedOrder);
+
+  return res.send(updatedOrder);
+}
+
+// Access is checked by the orderParticipant policy in routes.ts
+export async function cancelOrderHandler(
+  req: Request<
+    UpdateOrderStatusInput["params"],
+    {},
+    UpdateOrderStatusInput["body"]
+  >,
+  res: Response
+) {
+  const order = res.locals.order;
+  const user = res.locals.user;
+
+  // Buyers can change their mind until the order is paid
+  const canCancel =
+    hasPermission(user, "orders:manage") ||
+    (String(order.user) === String(user._id) && order.status === "pending");
+
+  if (!canCancel) {
+    throw new ForbiddenError("You can't cancel this order");
+  }
+
+  const updatedOrder = await cancelOrder(order, {
+    changedBy: user._id,
+    reason: req.body.reason,
+  });
+
+  if (!updatedOrder) {
+    throw new ConflictError(`A ${order.status} order can't be cancelled`);
+  }
+
+  // The buyer doesn't get the products, so they get their money back
+  await refundOrderPayments(updatedOrder);
+
+  await recordStatusChange(req, res, updatedOrder);
+
+  return res.send(updatedOrder);
+}
+
+// Sellers only see their own products, and the total for them
+function sellerView(
+  order: Pick<OrderDocument, "items" | "sellers" | "total">,
+  sellerId: unknown
+) {
+  const items = order.items.filter(
+    ({ seller }) => String(seller) === String(sellerId)
+  );
+
+  return {
+    ...omit(order, "sellers"),
+    items,
+    total: items.reduce(
+      (total, { price, quantity }) => total + price * quantity,
+      0
+    ),
+  };
+}
+
+async function recordStatusChange(
+  req: Pick<Request, "ip" | "get">,
+  res: Response,
+  order: Pick<OrderDocument, "orderId" | "status">
+) {
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: `order.${order.status}`,
+    target: { type: "order", id: order.orderId },
+  });
+}
@@ -0,0 +1,69 @@
+import { Request, Response } from "express";
+import config from "config";
+import {
+  RequestPasswordResetInput,
+  ResetPasswordInput,
+} from "../schema/passwordReset.schema";
+import {
+  consumePasswordResetToken,
+  createPasswordResetToken,
+} from "../service/passwordReset.service";
+import { invalidateSessions } from "../service/session.service";
+import { findUser, setPassword } from "../service/user.service";
+import { BadRequestError } from "../utils/errors";
+import { getLogger } from "../utils/requestContext";
+import { sendMail } from "../utils/mailer";
+
+export async function requestPasswordResetHandler(
+  req: Request<{}, {}, RequestPasswordResetInput["body"]>,
+  res: Response
+) {
+  const message = "If the email is registered, a reset link has been sent";
+
+  const user = await findUser({ email: req.body.email });
+
+  // Respond the same way either way so emails can't be enumerated
+  if (!user || user.disabled) {
+    return res.status(202).send(message);
+  }
+
+  try {
+    const token = await createPasswordResetToken(user._id);
+
+    const link = `${config.get<string>(
+      "clientUrl"
+    )}/reset-password?token=${token}`;
+
+    await sendMail({
+      to: user.email,
+      subject: "Reset your password",
+      text: `Someone asked to reset the password for your account. If it was you, follow this link to choose a new password: ${link}\n\nIf it wasn't you, you can ignore this email.`,
+    });
+  } catch (e: any) {
+    getLogger().error(e, "Could not send password reset email");
+  }
+
+  return res.status(202).send(message);
+}
+
+export async function resetPasswordHandler(
+  req: Request<{}, {}, ResetPasswordInput["body"]>,
+  res: Response
+) {
+  const resetToken = await consumePasswordResetToken(req.body.token);
+
+  if (!resetToken) {
+    throw new BadRequestError("Invalid or expired token");
+  }
+
+  const updated = await setPassword(resetToken.user, req.body.password);
+
+  if (!updated) {
+    throw new BadRequestError("Invalid or expired token");
+  }
+
+  // Whoever had the old password is logged out everywhere
+  await invalidateSessions({ user: resetToken.user });
+
+  return res.sendStatus(200);
+}
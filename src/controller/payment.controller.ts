@@ -0,0 +1,101 @@
+import { Request, Response } from "express";
+import {
+  CreatePaymentIntentInput,
+  FakePaymentEventInput,
+} from "../schema/payment.schema";
+import {
+  createPaymentIntent,
+  findPayment,
+  handlePaymentEvent,
+} from "../service/payment.service";
+import { findOrder } from "../service/order.service";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+import { fakePaymentEvent, getPaymentProvider } from "../utils/payments";
+import { getRawBody } from "../utils/rawBody";
+
+// Access is checked by the orderParticipant policy in routes.ts
+export async function createPaymentIntentHandler(
+  req: Request<CreatePaymentIntentInput["params"]>,
+  res: Response
+) {
+  const order = res.locals.order;
+
+  if (String(order.user) !== String(res.locals.user._id)) {
+    throw new ForbiddenError("Only the buyer can pay for an order");
+  }
+
+  if (order.status !== "pending") {
+    throw new ConflictError(`A ${order.status} order can't be paid`);
+  }
+
+  const payment = await createPaymentIntent(order);
+
+  if (!payment) {
+    throw new ConflictError("Another payment for the order is in progress");
+  }
+
+  return res.send(payment);
+}
+
+// Called by the payment provider, the signature proves the request is theirs
+export async function paymentWebhookHandler(req: Request, res: Response) {
+  const event = getPaymentProvider().parseWebhook(getRawBody(req), req.headers);
+
+  if (!event) {
+    throw new BadRequestError("Invalid webhook signature or event");
+  }
+
+  const handled = await handlePaymentEvent(event);
+
+  return res.send({ received: true, duplicate: !handled });
+}
+
+// Stands in for the fake provider's servers, sends the signed webhook it would
+// send when the payment succeeds or fails
+export async function fakePaymentEventHandler(
+  req: Request<
+    FakePaymentEventInput["params"],
+    {},
+    FakePaymentEventInput["body"]
+  >,
+  res: Response
+) {
+  const payment = await findPayment({
+    provider: "fake",
+    intentId: req.params.intentId,
+  });
+
+  if (!payment) {
+    throw new NotFoundError("Payment not found");
+  }
+
+  const order = await findOrder({ orderId: payment.order });
+
+  if (!order || String(order.user) !== String(res.locals.user._id)) {
+    throw new ForbiddenError("Only the buyer can pay for an order");
+  }
+
+  const { body, headers } = fakePaymentEvent(
+    {
+      id: payment.intentId,
+      amount: payment.amount,
+      currency: payment.currency,
+    },
+    req.body.type
+  );
+
+  const event = getPaymentProvider().parseWebhook(Buffer.from(body), headers);
+
+  if (!event) {
+    throw new BadRequestError("Invalid webhook signature or event");
+  }
+
+  const handled = await handlePaymentEvent(event);
+
+  return res.send({ received: true, duplicate: !handled });
+}
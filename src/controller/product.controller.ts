@@ -1,14 +1,52 @@
 import { Request, Response } from "express";
+import { pick } from "lodash";
 import {
+  createProductSchema,
   CreateProductInput,
+  editableProductFields,
+  JsonPatchProductInput,
+  ListProductsInput,
+  ListTrashedProductsInput,
+  PatchProductInput,
+  ProductFacetsInput,
+  GetPriceHistoryInput,
+  AdjustStockInput,
+  GetAvailabilityInput,
+  SearchProductsInput,
+  RestoreProductInput,
   UpdateProductInput,
+  UploadProductImageInput,
 } from "../schema/product.schema";
 import {
+  adjustStock,
   createProduct,
-  deleteProduct,
   findAndUpdateProduct,
   findProduct,
+  findProductFacets,
+  findProducts,
+  restoreProduct,
+  searchProducts,
+  setProductImage,
+  trashProduct,
 } from "../service/product.service";
+import {
+  removeProductImageFiles,
+  storeProductImage,
+} from "../service/productImage.service";
+import { findCategory } from "../service/category.service";
+import { findPriceHistory } from "../service/priceHistory.service";
+import { diff, recordAuditEvent } from "../service/audit.service";
+import { enqueueWebhookEvent } from "../service/webhook.service";
+import { auditContext } from "../utils/audit";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError,
+} from "../utils/errors";
+import { matchesETag, versionETag } from "../utils/etag";
+import { hasPermission } from "../utils/permissions";
+import { applyJsonPatch } from "../utils/jsonPatch";
 
 export async function createProductHandler(
   req: Request<{}, {}, CreateProductInput["body"]>,
@@ -18,34 +56,90 @@ export async function createProductHandler(
 
   const body = req.body;
 
+  await assertCategoryExists(body.category);
+
   const product = await createProduct({ ...body, user: userId });
 
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "product.create",
+    target: { type: "product", id: product.productId },
+    changes: diff(null, product.toJSON()),
+  });
+
+  await enqueueWebhookEvent("product.created", { product: product.toJSON() });
+
   return res.send(product);
 }
 
+// Ownership is checked by the requireOwnership policy in routes.ts
 export async function updateProductHandler(
-  req: Request<UpdateProductInput["params"]>,
+  req: Request<UpdateProductInput["params"], {}, UpdateProductInput["body"]>,
   res: Response
 ) {
-  const userId = res.locals.user._id;
+  return saveProductUpdate(req, res, req.body, { replace: true });
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function patchProductHandler(
+  req: Request<
+    PatchProductInput["params"],
+    {},
+    PatchProductInput["body"] | JsonPatchProductInput["body"]
+  >,
+  res: Response
+) {
+  if (!Array.isArray(req.body)) {
+    return saveProductUpdate(req, res, req.body, { replace: false });
+  }
+
+  // JSON Patch: apply the operations to the current product and make sure the
+  // result is still a valid product
+  const patched = applyJsonPatch(
+    pick(res.locals.product, editableProductFields),
+    req.body,
+    editableProductFields
+  );
+
+  return saveProductUpdate(
+    req,
+    res,
+    createProductSchema.shape.body.parse(patched),
+    { replace: true }
+  );
+}
 
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function uploadProductImageHandler(
+  req: Request<UploadProductImageInput["params"]>,
+  res: Response
+) {
   const productId = req.params.productId;
-  const update = req.body;
+  const product = res.locals.product;
 
-  const product = await findProduct({ productId });
+  // uploadImage has made sure there is a file
+  const files = await storeProductImage(productId, req.file!.buffer);
 
-  if (!product) {
-    return res.sendStatus(404);
-  }
+  const updatedProduct = await setProductImage({ productId }, files);
 
-  if (String(product.user) !== userId) {
-    return res.sendStatus(403);
+  if (!updatedProduct) {
+    await removeProductImageFiles(files);
+    throw new NotFoundError("Product not found");
   }
 
-  const updatedProduct = await findAndUpdateProduct({ productId }, update, {
-    new: true,
+  await removeProductImageFiles(product.imageFiles);
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "product.update",
+    target: { type: "product", id: productId },
+    changes: diff(product, updatedProduct),
   });
 
+  await enqueueWebhookEvent("product.updated", { product: updatedProduct });
+
+  res.setHeader("ETag", versionETag(updatedProduct));
+
   return res.send(updatedProduct);
 }
 
@@ -57,30 +151,280 @@ export async function getProductHandler(
   const product = await findProduct({ productId });
 
   if (!product) {
-    return res.sendStatus(404);
+    throw new NotFoundError("Product not found");
+  }
+
+  const etag = versionETag(product);
+  res.setHeader("ETag", etag);
+
+  const ifNoneMatch = req.get("if-none-match");
+
+  if (ifNoneMatch && matchesETag(ifNoneMatch, etag, true)) {
+    return res.status(304).end();
   }
 
   return res.send(product);
 }
 
-export async function deleteProductHandler(
-  req: Request<UpdateProductInput["params"]>,
+export async function listProductsHandler(req: Request, res: Response) {
+  // validateResource has already replaced the raw query string values
+  const { cursor, limit, sort, order, ...filters } =
+    req.query as unknown as ListProductsInput["query"];
+
+  const page = await findProducts(filters, { cursor, limit, sort, order });
+
+  return res.send(page);
+}
+
+export async function searchProductsHandler(req: Request, res: Response) {
+  const { q, limit, ...filters } =
+    req.query as unknown as SearchProductsInput["query"];
+
+  const results = await searchProducts(q, filters, limit);
+
+  return res.send(results);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function adjustStockHandler(
+  req: Request<AdjustStockInput["params"], {}, AdjustStockInput["body"]>,
   res: Response
 ) {
-  const userId = res.locals.user._id;
   const productId = req.params.productId;
+  const { stock, adjustment } = req.body;
+
+  const updatedProduct = await adjustStock(
+    { productId },
+    stock !== undefined ? { stock } : { adjustment: adjustment || 0 }
+  );
+
+  if (!updatedProduct) {
+    throw new ConflictError("Stock can't be lower than the reserved quantity");
+  }
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "product.stock",
+    target: { type: "product", id: productId },
+    changes: diff(
+      { stock: res.locals.product.stock || 0 },
+      { stock: updatedProduct.stock }
+    ),
+  });
+
+  await enqueueWebhookEvent("product.updated", { product: updatedProduct });
+
+  res.setHeader("ETag", versionETag(updatedProduct));
+
+  return res.send(availability(updatedProduct));
+}
+
+export async function getAvailabilityHandler(
+  req: Request<GetAvailabilityInput["params"]>,
+  res: Response
+) {
+  const product = await findProduct({ productId: req.params.productId });
+
+  if (!product) {
+    throw new NotFoundError("Product not found");
+  }
+
+  return res.send(availability(product));
+}
+
+export async function getPriceHistoryHandler(
+  req: Request<GetPriceHistoryInput["params"]>,
+  res: Response
+) {
+  const productId = req.params.productId;
+  const { cursor, limit } =
+    req.query as unknown as GetPriceHistoryInput["query"];
 
   const product = await findProduct({ productId });
 
   if (!product) {
-    return res.sendStatus(404);
+    throw new NotFoundError("Product not found");
   }
 
-  if (String(product.user) !== userId) {
-    return res.sendStatus(403);
+  const page = await findPriceHistory(productId, { cursor, limit });
+
+  return res.send(page);
+}
+
+export async function getProductFacetsHandler(req: Request, res: Response) {
+  const filters = req.query as unknown as ProductFacetsInput["query"];
+
+  const facets = await findProductFacets(filters);
+
+  return res.send(facets);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function deleteProductHandler(
+  req: Request<UpdateProductInput["params"]>,
+  res: Response
+) {
+  const productId = req.params.productId;
+
+  const trashedProduct = await trashProduct({ productId });
+
+  if (!trashedProduct) {
+    throw new NotFoundError("Product not found");
   }
 
-  await deleteProduct({ productId });
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "product.delete",
+    target: { type: "product", id: productId },
+    changes: diff(res.locals.product, trashedProduct),
+  });
+
+  await enqueueWebhookEvent("product.deleted", { product: trashedProduct });
 
   return res.sendStatus(200);
 }
+
+export async function listTrashedProductsHandler(req: Request, res: Response) {
+  const user = res.locals.user;
+
+  const { cursor, limit, sort, order, ...filters } =
+    req.query as unknown as ListTrashedProductsInput["query"];
+
+  // Moderators can see every user's trash, everyone else only their own
+  const owner = hasPermission(user, "products:moderate")
+    ? filters.user
+    : user._id;
+
+  const page = await findProducts(
+    { user: owner, trashed: true },
+    { cursor, limit, sort, order }
+  );
+
+  return res.send(page);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function restoreProductHandler(
+  req: Request<RestoreProductInput["params"]>,
+  res: Response
+) {
+  const productId = req.params.productId;
+
+  const restoredProduct = await restoreProduct({ productId });
+
+  if (!restoredProduct) {
+    throw new NotFoundError("Product not found");
+  }
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "product.restore",
+    target: { type: "product", id: productId },
+    changes: diff(res.locals.product, restoredProduct),
+  });
+
+  // Restored products are back in the listings, subscribers see it as a change
+  await enqueueWebhookEvent("product.updated", { product: restoredProduct });
+
+  res.setHeader("ETag", versionETag(restoredProduct));
+
+  return res.send(restoredProduct);
+}
+
+async function saveProductUpdate(
+  req: Request<UpdateProductInput["params"], {}, unknown>,
+  res: Response,
+  update: Partial<CreateProductInput["body"]>,
+  // PUT bodies and JSON Patch results are the whole product, the optional
+  // fields they leave out are removed
+  { replace }: { replace: boolean }
+) {
+  const productId = req.params.productId;
+  const ifMatch = req.get("if-match");
+
+  // Fail fast against the product the ownership policy loaded
+  if (ifMatch && !matchesETag(ifMatch, versionETag(res.locals.product))) {
+    throw new PreconditionFailedError("The product has been modified");
+  }
+
+  await assertCategoryExists(update.category);
+
+  const $unset: Record<string, ""> = {};
+
+  if (replace) {
+    editableProductFields.forEach((field) => {
+      if ((update as Record<string, unknown>)[field] === undefined) {
+        $unset[field] = "";
+      }
+    });
+  }
+
+  const image =
+    replace || update.image !== undefined
+      ? update.image
+      : res.locals.product.image;
+
+  // Pointing the product at another image, or removing it, drops the
+  // uploaded one
+  const replacesImage =
+    image !== res.locals.product.image &&
+    res.locals.product.imageFiles?.length > 0;
+
+  // The version is part of the query, so an update that happens after the
+  // check above still can't be overwritten
+  const updatedProduct = await findAndUpdateProduct(
+    { productId, ...(ifMatch && { __v: res.locals.product.__v }) },
+    {
+      ...update,
+      ...(Object.keys($unset).length > 0 && { $unset }),
+      ...(replacesImage && { $set: { imageFiles: [] } }),
+    },
+    { new: true, lean: true }
+  );
+
+  if (!updatedProduct) {
+    throw ifMatch
+      ? new PreconditionFailedError("The product has been modified")
+      : new NotFoundError("Product not found");
+  }
+
+  if (replacesImage) {
+    await removeProductImageFiles(res.locals.product.imageFiles);
+  }
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "product.update",
+    target: { type: "product", id: productId },
+    changes: diff(res.locals.product, updatedProduct),
+  });
+
+  await enqueueWebhookEvent("product.updated", { product: updatedProduct });
+
+  res.setHeader("ETag", versionETag(updatedProduct));
+
+  return res.send(updatedProduct);
+}
+
+// Products created before stock was tracked don't have the fields
+function availability(product: {
+  productId: string;
+  stock?: number;
+  reserved?: number;
+}) {
+  const stock = product.stock || 0;
+  const reserved = product.reserved || 0;
+
+  return {
+    productId: product.productId,
+    stock,
+    reserved,
+    available: stock - reserved,
+  };
+}
+
+async function assertCategoryExists(categoryId?: string) {
+  if (categoryId && !(await findCategory({ categoryId }))) {
+    throw new BadRequestError("Category not found");
+  }
+}
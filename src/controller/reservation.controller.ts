@@ -0,0 +1,65 @@
+import { Request, Response } from "express";
+import config from "config";
+import { ReserveStockInput } from "../schema/product.schema";
+import { ReleaseReservationInput } from "../schema/reservation.schema";
+import {
+  findProduct,
+  findReservedQuantity,
+  releaseReservation,
+  reserveStock,
+} from "../service/product.service";
+import { ConflictError, NotFoundError } from "../utils/errors";
+
+export async function reserveStockHandler(
+  req: Request<ReserveStockInput["params"], {}, ReserveStockInput["body"]>,
+  res: Response
+) {
+  const productId = req.params.productId;
+
+  const product = await findProduct({ productId });
+
+  if (!product) {
+    throw new NotFoundError("Product not found");
+  }
+
+  const reservation = await reserveStock(productId, {
+    quantity: req.body.quantity,
+    user: res.locals.user._id,
+  });
+
+  if (!reservation) {
+    throw new ConflictError("Not enough stock available");
+  }
+
+  // Checked after reserving, so concurrent requests can't all slip under the
+  // cap. They may all be turned down instead
+  if (
+    (await findReservedQuantity(res.locals.user._id)) >
+    config.get<number>("inventory.maxReservedPerUser")
+  ) {
+    await releaseReservation(reservation.reservationId);
+
+    throw new ConflictError("Too many units reserved");
+  }
+
+  return res.send(reservation);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function getReservationHandler(req: Request, res: Response) {
+  return res.send(res.locals.reservation);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function releaseReservationHandler(
+  req: Request<ReleaseReservationInput["params"]>,
+  res: Response
+) {
+  const reservation = await releaseReservation(req.params.reservationId);
+
+  if (!reservation) {
+    throw new ConflictError("The reservation is no longer active");
+  }
+
+  return res.send(reservation);
+}
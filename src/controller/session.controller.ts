@@ -1,44 +1,93 @@
 import { Request, Response } from "express";
 import config from "config";
+import { RefreshSessionInput } from "../schema/session.schema";
 import {
   createSession,
   findSessions,
+  reIssueTokens,
+  signSessionTokens,
   updateSession,
 } from "../service/session.service";
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "../service/loginAttempt.service";
 import { validatePassword } from "../service/user.service";
-import { signJwt } from "../utils/jwt.utils";
+import { recordAuditEvent } from "../service/audit.service";
+import { auditContext } from "../utils/audit";
+import {
+  clearRefreshTokenCookie,
+  getCookie,
+  setRefreshTokenCookie,
+} from "../utils/cookies";
+import { ForbiddenError, UnauthorizedError } from "../utils/errors";
 
 export async function createUserSessionHandler(req: Request, res: Response) {
   // Validate the user's password
   const user = await validatePassword(req.body);
 
+  const attempt = { email: req.body.email, ip: req.ip };
+
   if (!user) {
-    return res.status(401).send("Invalid email or password");
+    await recordLoginFailure(attempt);
+    await recordAuditEvent({
+      ...auditContext(req, res),
+      action: "session.login_failed",
+      target: { type: "user", id: req.body.email },
+    });
+    throw new UnauthorizedError("Invalid email or password");
+  }
+
+  await recordLoginSuccess(attempt);
+
+  if (config.get<boolean>("emailVerification.required") && !user.verified) {
+    throw new ForbiddenError("Email address is not verified");
   }
 
   // create a session
   const session = await createSession(user._id, req.get("user-agent") || "");
 
-  // create an access token
+  // create an access token & a refresh token bound to the session
+  const { accessToken, refreshToken } = signSessionTokens(user, session);
 
-  const accessToken = signJwt(
-    { ...user, session: session._id },
-    "accessTokenPrivateKey",
-    { expiresIn: config.get("accessTokenTtl") } // 15 minutes,
-  );
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    actor: user._id,
+    action: "session.create",
+    target: { type: "session", id: String(session._id) },
+  });
 
-  // create a refresh token
-  const refreshToken = signJwt(
-    { ...user, session: session._id },
-    "refreshTokenPrivateKey",
-    { expiresIn: config.get("refreshTokenTtl") } // 15 minutes
-  );
+  setRefreshTokenCookie(res, refreshToken);
 
   // return access & refresh tokens
 
   return res.send({ accessToken, refreshToken });
 }
 
+export async function refreshSessionHandler(
+  req: Request<{}, {}, RefreshSessionInput["body"]>,
+  res: Response
+) {
+  const refreshToken =
+    req.body.refreshToken ||
+    getCookie(req, config.get<string>("refreshTokenCookieName"));
+
+  if (!refreshToken) {
+    throw new UnauthorizedError("Refresh token is required");
+  }
+
+  const tokens = await reIssueTokens({ refreshToken });
+
+  if (!tokens) {
+    clearRefreshTokenCookie(res);
+    throw new UnauthorizedError("Invalid refresh token");
+  }
+
+  setRefreshTokenCookie(res, tokens.refreshToken);
+
+  return res.send(tokens);
+}
+
 export async function getUserSessionsHandler(req: Request, res: Response) {
   const userId = res.locals.user._id;
 
@@ -52,6 +101,14 @@ export async function deleteSessionHandler(req: Request, res: Response) {
 
   await updateSession({ _id: sessionId }, { valid: false });
 
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "session.delete",
+    target: { type: "session", id: String(sessionId) },
+  });
+
+  clearRefreshTokenCookie(res);
+
   return res.send({
     accessToken: null,
     refreshToken: null,
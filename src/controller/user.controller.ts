@@ -1,8 +1,35 @@
 import { Request, Response } from "express";
 import { omit } from "lodash";
-import { CreateUserInput } from "../schema/user.schema";
-import { createUser } from "../service/user.service";
-import logger from "../utils/logger";
+import {
+  ChangePasswordInput,
+  CreateUserInput,
+  GetUserInput,
+  ListUsersInput,
+  UpdateMeInput,
+} from "../schema/user.schema";
+import { sendVerificationEmail } from "../service/emailVerification.service";
+import { deleteCart } from "../service/cart.service";
+import { deleteProducts } from "../service/product.service";
+import { deleteWebhooks } from "../service/webhook.service";
+import {
+  deleteSessions,
+  findSessions,
+  invalidateSessions,
+} from "../service/session.service";
+import {
+  changePassword,
+  createUser,
+  deleteUser,
+  findUser,
+  findUsers,
+  updateUser,
+} from "../service/user.service";
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+} from "../utils/errors";
+import { getLogger } from "../utils/requestContext";
 
 export async function createUserHandler(
   req: Request<{}, {}, CreateUserInput["body"]>,
@@ -10,9 +37,185 @@ export async function createUserHandler(
 ) {
   try {
     const user = await createUser(req.body);
+
+    // The account is created either way, the user can ask for another email
+    await sendVerificationEmail(user).catch((e) =>
+      getLogger().error(e, "Could not send verification email")
+    );
+
+    return res.send(user);
+  } catch (e: any) {
+    if (e.code === 11000) {
+      throw new ConflictError("Email is already in use");
+    }
+
+    throw e;
+  }
+}
+
+export async function listUsersHandler(req: Request, res: Response) {
+  // validateResource has already replaced the raw query string values
+  const { cursor, limit, ...filters } =
+    req.query as unknown as ListUsersInput["query"];
+
+  const page = await findUsers(filters, { cursor, limit });
+
+  return res.send(page);
+}
+
+export async function getUserHandler(
+  req: Request<GetUserInput["params"]>,
+  res: Response
+) {
+  const userId = req.params.userId;
+
+  const user = await findUser({ _id: userId });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  const sessions = await findSessions({ user: userId, valid: true });
+
+  return res.send({ ...omit(user, "password"), sessions });
+}
+
+export async function disableUserHandler(
+  req: Request<GetUserInput["params"]>,
+  res: Response
+) {
+  const userId = req.params.userId;
+
+  const user = await updateUser({ _id: userId }, { disabled: true });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  // Log the user out everywhere, the refresh tokens stop working immediately
+  await invalidateSessions({ user: userId });
+
+  return res.send(user);
+}
+
+export async function enableUserHandler(
+  req: Request<GetUserInput["params"]>,
+  res: Response
+) {
+  const user = await updateUser(
+    { _id: req.params.userId },
+    { disabled: false }
+  );
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  return res.send(user);
+}
+
+export async function deleteUserHandler(
+  req: Request<GetUserInput["params"]>,
+  res: Response
+) {
+  const userId = req.params.userId;
+
+  const user = await findUser({ _id: userId });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  await removeUser(userId);
+
+  return res.sendStatus(200);
+}
+
+export async function getMeHandler(req: Request, res: Response) {
+  const user = await findUser({ _id: res.locals.user._id });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  return res.send(omit(user, "password"));
+}
+
+export async function updateMeHandler(
+  req: Request<{}, {}, UpdateMeInput["body"]>,
+  res: Response
+) {
+  const userId = res.locals.user._id;
+  const { name, email } = req.body;
+
+  if (email && (await findUser({ email, _id: { $ne: userId } }))) {
+    throw new ConflictError("Email is already in use");
+  }
+
+  // A new email has to be verified again before it counts. The token may hold
+  // an older email, so the stored one is compared
+  const changesEmail = Boolean(
+    email && (await findUser({ _id: userId }))?.email !== email
+  );
+
+  try {
+    const user = await updateUser(
+      { _id: userId },
+      {
+        ...(name && { name }),
+        ...(changesEmail && { email, verified: false }),
+      }
+    );
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (changesEmail) {
+      await sendVerificationEmail(user).catch((e) =>
+        getLogger().error(e, "Could not send verification email")
+      );
+    }
+
     return res.send(user);
   } catch (e: any) {
-    logger.error(e);
-    return res.status(409).send(e.message);
+    // Another request took the email between the check and the update
+    if (e.code === 11000) {
+      throw new ConflictError("Email is already in use");
+    }
+
+    throw e;
   }
 }
+
+export async function changePasswordHandler(
+  req: Request<{}, {}, ChangePasswordInput["body"]>,
+  res: Response
+) {
+  const { _id: userId, session } = res.locals.user;
+
+  const changed = await changePassword(userId, req.body);
+
+  if (!changed) {
+    throw new UnauthorizedError("Invalid password");
+  }
+
+  // Keep the current session, log out everywhere else
+  await invalidateSessions({ user: userId, _id: { $ne: session } });
+
+  return res.sendStatus(200);
+}
+
+export async function deleteMeHandler(req: Request, res: Response) {
+  await removeUser(res.locals.user._id);
+
+  return res.sendStatus(200);
+}
+
+async function removeUser(userId: string) {
+  await deleteProducts({ user: userId });
+  await deleteSessions({ user: userId });
+  await deleteCart(userId);
+  await deleteWebhooks({ user: userId });
+  await deleteUser({ _id: userId });
+}
@@ -0,0 +1,158 @@
+import { Request, Response } from "express";
+import config from "config";
+import { omit } from "lodash";
+import {
+  CreateWebhookInput,
+  DeleteWebhookInput,
+  ListWebhookDeliveriesInput,
+  ReplayWebhookDeliveryInput,
+  UpdateWebhookInput,
+} from "../schema/webhook.schema";
+import {
+  countWebhooks,
+  createWebhook,
+  deleteWebhooks,
+  findWebhookDeliveries,
+  findWebhookDelivery,
+  findWebhooks,
+  replayWebhookDelivery,
+  updateWebhook,
+} from "../service/webhook.service";
+import { diff, recordAuditEvent } from "../service/audit.service";
+import { auditContext } from "../utils/audit";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+import { isPublicWebhookUrl } from "../utils/webhooks";
+
+export async function createWebhookHandler(
+  req: Request<{}, {}, CreateWebhookInput["body"]>,
+  res: Response
+) {
+  const userId = res.locals.user._id;
+
+  assertWebhookUrlAllowed(req.body.url);
+
+  const maxPerUser = config.get<number>("webhooks.maxPerUser");
+
+  if ((await countWebhooks({ user: userId })) >= maxPerUser) {
+    throw new ConflictError(`You can have at most ${maxPerUser} webhooks`);
+  }
+
+  const webhook = await createWebhook({ ...req.body, user: userId });
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "webhook.create",
+    target: { type: "webhook", id: webhook.webhookId },
+    changes: diff(null, omit(webhook, "secret")),
+  });
+
+  return res.send(webhook);
+}
+
+export async function listWebhooksHandler(req: Request, res: Response) {
+  const webhooks = await findWebhooks({ user: res.locals.user._id });
+
+  return res.send(webhooks);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function getWebhookHandler(req: Request, res: Response) {
+  return res.send(res.locals.webhook);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function updateWebhookHandler(
+  req: Request<UpdateWebhookInput["params"], {}, UpdateWebhookInput["body"]>,
+  res: Response
+) {
+  const webhookId = req.params.webhookId;
+
+  if (req.body.url !== undefined) {
+    assertWebhookUrlAllowed(req.body.url);
+  }
+
+  const webhook = await updateWebhook({ webhookId }, req.body);
+
+  if (!webhook) {
+    throw new NotFoundError("Webhook not found");
+  }
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "webhook.update",
+    target: { type: "webhook", id: webhookId },
+    changes: diff(res.locals.webhook, webhook),
+  });
+
+  return res.send(webhook);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function deleteWebhookHandler(
+  req: Request<DeleteWebhookInput["params"]>,
+  res: Response
+) {
+  const webhookId = req.params.webhookId;
+
+  await deleteWebhooks({ webhookId });
+
+  await recordAuditEvent({
+    ...auditContext(req, res),
+    action: "webhook.delete",
+    target: { type: "webhook", id: webhookId },
+    changes: diff(res.locals.webhook, null),
+  });
+
+  return res.sendStatus(200);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function listWebhookDeliveriesHandler(
+  req: Request<ListWebhookDeliveriesInput["params"]>,
+  res: Response
+) {
+  const { cursor, limit, status } =
+    req.query as unknown as ListWebhookDeliveriesInput["query"];
+
+  const page = await findWebhookDeliveries(
+    req.params.webhookId,
+    { status },
+    { cursor, limit }
+  );
+
+  return res.send(page);
+}
+
+// Ownership is checked by the requireOwnership policy in routes.ts
+export async function replayWebhookDeliveryHandler(
+  req: Request<ReplayWebhookDeliveryInput["params"]>,
+  res: Response
+) {
+  const { webhookId, deliveryId } = req.params;
+
+  const delivery = await findWebhookDelivery({
+    deliveryId,
+    webhook: webhookId,
+  });
+
+  if (!delivery) {
+    throw new NotFoundError("Delivery not found");
+  }
+
+  if (!res.locals.webhook.active) {
+    throw new ConflictError("The webhook is inactive");
+  }
+
+  const replay = await replayWebhookDelivery(delivery);
+
+  return res.send(replay);
+}
+
+function assertWebhookUrlAllowed(url: string) {
+  if (
+    !config.get<boolean>("webhooks.allowPrivateUrls") &&
+    !isPublicWebhookUrl(url)
+  ) {
+    throw new BadRequestError("Webhooks can't point at private addresses");
+  }
+}
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from "express";
+import log from "../utils/logger";
+
+// Logs one line per request once the response has been sent
+const accessLog = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+
+  res.on("finish", () => {
+    const user = res.locals.user;
+    const status = res.statusCode;
+
+    const level = status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+
+    log[level](
+      {
+        requestId: res.locals.requestId,
+        ...(user && { userId: user._id, sessionId: user.session }),
+        method: req.method,
+        url: req.originalUrl,
+        status,
+        durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+        userAgent: req.get("user-agent"),
+        ip: req.ip,
+      },
+      `${req.method} ${req.originalUrl} ${status}`
+    );
+  });
+
+  return next();
+};
+
+export default accessLog;
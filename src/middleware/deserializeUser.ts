@@ -1,45 +1,53 @@
 import { get } from "lodash";
+import config from "config";
 import { Request, Response, NextFunction } from "express";
 import { verifyJwt } from "../utils/jwt.utils";
-import { reIssueAccessToken } from "../service/session.service";
+import { reIssueTokens } from "../service/session.service";
+import asyncHandler from "../utils/asyncHandler";
 
-const deserializeUser = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  const accessToken = get(req, "headers.authorization", "").replace(
-    /^Bearer\s/,
-    ""
-  );
+const deserializeUser = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const accessToken = get(req, "headers.authorization", "").replace(
+      /^Bearer\s/,
+      ""
+    );
 
-  const refreshToken = get(req, "headers.x-refresh");
+    const refreshToken = get(req, "headers.x-refresh");
 
-  if (!accessToken) {
-    return next();
-  }
+    if (!accessToken) {
+      return next();
+    }
 
-  const { decoded, expired } = verifyJwt(accessToken, "accessTokenPublicKey");
+    const { decoded, expired } = verifyJwt(accessToken, "accessTokenPublicKey");
 
-  if (decoded) {
-    res.locals.user = decoded;
-    return next();
-  }
+    if (decoded) {
+      res.locals.user = decoded;
+      return next();
+    }
 
-  if (expired && refreshToken) {
-    const newAccessToken = await reIssueAccessToken({ refreshToken });
+    if (
+      expired &&
+      refreshToken &&
+      config.get<boolean>("implicitTokenRefresh")
+    ) {
+      const tokens = await reIssueTokens({ refreshToken });
 
-    if (newAccessToken) {
-      res.setHeader("x-access-token", newAccessToken);
-    }
+      if (!tokens) {
+        return next();
+      }
+
+      // The refresh token is rotated, so the client has to store both
+      res.setHeader("x-access-token", tokens.accessToken);
+      res.setHeader("x-refresh-token", tokens.refreshToken);
 
-    const result = verifyJwt(newAccessToken as string, "accessTokenPublicKey");
+      const result = verifyJwt(tokens.accessToken, "accessTokenPublicKey");
+
+      res.locals.user = result.decoded;
+      return next();
+    }
 
-    res.locals.user = result.decoded;
     return next();
   }
-
-  return next();
-};
+);
 
 export default deserializeUser;
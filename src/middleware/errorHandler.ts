@@ -0,0 +1,74 @@
+import { STATUS_CODES } from "http";
+import { Request, Response, NextFunction } from "express";
+import { ZodError } from "zod";
+import {
+  AppError,
+  LockedError,
+  NotFoundError,
+  TooManyRequestsError,
+  ValidationError,
+} from "../utils/errors";
+import { getLogger } from "../utils/requestContext";
+
+function toAppError(error: any): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof ZodError) return new ValidationError(error.errors);
+
+  // Client errors from express and body-parser, e.g. invalid JSON bodies
+  if (error?.expose && error.status < 500) {
+    return new AppError(
+      error.status,
+      STATUS_CODES[error.status] || "Bad Request",
+      error.message
+    );
+  }
+
+  return new AppError(500, "Internal Server Error");
+}
+
+export const notFoundHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => next(new NotFoundError(`Cannot ${req.method} ${req.path}`));
+
+// Must be registered after all the routes
+const errorHandler = (
+  error: any,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const appError = toAppError(error);
+
+  if (appError.status >= 500) {
+    getLogger().error(error);
+  }
+
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  if (
+    appError instanceof LockedError ||
+    appError instanceof TooManyRequestsError
+  ) {
+    res.setHeader("Retry-After", appError.retryAfter);
+  }
+
+  return res
+    .status(appError.status)
+    .type("application/problem+json")
+    .send({
+      type: "about:blank",
+      title: appError.title,
+      status: appError.status,
+      ...(appError.detail && { detail: appError.detail }),
+      instance: req.originalUrl,
+      requestId: res.locals.requestId,
+      ...appError.extensions,
+    });
+};
+
+export default errorHandler;
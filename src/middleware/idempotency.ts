@@ -0,0 +1,133 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import {
+  claimIdempotencyKey,
+  releaseIdempotencyKey,
+  saveIdempotentResponse,
+} from "../service/idempotency.service";
+import { IdempotencyKeyDocument } from "../models/idempotencyKey.model";
+import asyncHandler from "../utils/asyncHandler";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  UnprocessableEntityError,
+} from "../utils/errors";
+import { getRawBody } from "../utils/rawBody";
+import { getLogger } from "../utils/requestContext";
+
+// Locked and Too Many Requests, the client is told to come back later
+const retryableStatuses = [423, 429];
+
+// The headers that describe the body, replayed along with it
+const replayedHeaders = ["content-type", "etag", "location"];
+
+function saveResponse(
+  record: Pick<IdempotencyKeyDocument, "_id">,
+  res: Response,
+  body: string | Buffer | null | undefined
+) {
+  const headers: Record<string, string> = {};
+
+  replayedHeaders.forEach((name) => {
+    const value = res.get(name);
+    if (value) headers[name] = value;
+  });
+
+  // Server errors, rate limits and lockouts may not happen again, so the key
+  // is freed for a retry instead of replaying them
+  const saved =
+    res.statusCode >= 500 || retryableStatuses.includes(res.statusCode)
+      ? releaseIdempotencyKey(record)
+      : saveIdempotentResponse(record, {
+          statusCode: res.statusCode,
+          headers,
+          body: body ? body.toString() : "",
+        });
+
+  saved.catch((e: any) =>
+    getLogger().error({ err: e }, "Could not save the idempotent response")
+  );
+}
+
+// Requests sent with an Idempotency-Key header are handled once per key and
+// user, repeats get the first response back. Must come after requireUser
+const idempotency = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get("idempotency-key");
+
+    if (key === undefined) return next();
+
+    if (!res.locals.user) {
+      throw new ForbiddenError("You must be logged in");
+    }
+
+    if (!key || key.length > 255) {
+      throw new BadRequestError(
+        "Idempotency-Key must be between 1 and 255 characters long"
+      );
+    }
+
+    const request = {
+      key,
+      user: res.locals.user._id,
+      method: req.method,
+      path: req.originalUrl,
+      requestHash: crypto
+        .createHash("sha256")
+        .update(getRawBody(req))
+        .digest("hex"),
+    };
+
+    const { claimed, record } = await claimIdempotencyKey(request);
+
+    if (claimed && record) {
+      const send = res.send;
+
+      // res.json, and objects, numbers and booleans passed to res.send, call
+      // res.send again with the serialized body, that is the one that is saved
+      res.send = function (body?: unknown) {
+        if (
+          body === null ||
+          body === undefined ||
+          typeof body === "string" ||
+          Buffer.isBuffer(body)
+        ) {
+          res.send = send;
+          saveResponse(record, res, body);
+        }
+
+        return send.call(this, body);
+      };
+
+      return next();
+    }
+
+    if (
+      record &&
+      (record.method !== request.method ||
+        record.path !== request.path ||
+        record.requestHash !== request.requestHash)
+    ) {
+      throw new UnprocessableEntityError(
+        "The Idempotency-Key has already been used for a different request"
+      );
+    }
+
+    if (!record?.response) {
+      res.setHeader("Retry-After", 1);
+      throw new ConflictError(
+        "A request with this Idempotency-Key is still being handled"
+      );
+    }
+
+    const { statusCode, headers, body } = record.response;
+
+    return res
+      .status(statusCode)
+      .set({ ...headers, "Idempotent-Replayed": "true" })
+      .send(body);
+  }
+);
+
+export default idempotency;
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from "express";
+import { startLoginAttempt } from "../service/loginAttempt.service";
+import asyncHandler from "../utils/asyncHandler";
+import { LockedError, TooManyRequestsError } from "../utils/errors";
+
+// Counts the login attempt and rejects it for locked accounts and clients that
+// have to back off, before the password is checked
+const loginProtection = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const block = await startLoginAttempt({
+      email: req.body.email,
+      ip: req.ip,
+    });
+
+    if (block?.status === 423) {
+      throw new LockedError(
+        "Account is temporarily locked, try again later",
+        block.retryAfter
+      );
+    }
+
+    if (block) {
+      throw new TooManyRequestsError(
+        "Too many failed login attempts, try again later",
+        block.retryAfter
+      );
+    }
+
+    return next();
+  }
+);
+
+export default loginProtection;
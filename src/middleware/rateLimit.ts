@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from "express";
+import config from "config";
+import { TooManyRequestsError } from "../utils/errors";
+import { rateLimitRejectionsCounter } from "../utils/metrics";
+
+interface RateLimitOptions {
+  // Name of the budget in the rateLimits config
+  policy: string;
+  // Count requests per client address, or per authenticated user falling
+  // back to the address for anonymous requests
+  key: "ip" | "user";
+}
+
+interface Window {
+  start: number;
+  count: number;
+  previous: number;
+}
+
+// Routes that use the same policy share its budget
+const policies = new Map<string, Map<string, Window>>();
+
+function windowsFor(policy: string, windowMs: number) {
+  let windows = policies.get(policy);
+
+  if (!windows) {
+    const created = new Map<string, Window>();
+
+    // Forget clients that haven't made a request for two windows
+    setInterval(() => {
+      const stale = Date.now() - 2 * windowMs;
+
+      created.forEach((value, client) => {
+        if (value.start < stale) created.delete(client);
+      });
+    }, windowMs).unref();
+
+    policies.set(policy, created);
+    windows = created;
+  }
+
+  return windows;
+}
+
+// Sliding window counter: the count of the previous fixed window is weighted by
+// how much of it still overlaps the sliding window
+const rateLimit = ({ policy, key }: RateLimitOptions) => {
+  const { limit, window } = config.get<{ limit: number; window: number }>(
+    `rateLimits.${policy}`
+  );
+  const windowMs = window * 1000;
+
+  const windows = windowsFor(policy, windowMs);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const userId = key === "user" ? res.locals.user?._id : undefined;
+    const client = userId ? `user:${userId}` : `ip:${req.ip}`;
+
+    const now = Date.now();
+    const start = now - (now % windowMs);
+
+    let current = windows.get(client);
+
+    if (!current || current.start !== start) {
+      const previous =
+        current && current.start === start - windowMs ? current.count : 0;
+
+      current = { start, count: 0, previous };
+      windows.set(client, current);
+    }
+
+    const weight = 1 - (now - start) / windowMs;
+    const used = Math.floor(current.previous * weight) + current.count;
+    const reset = Math.ceil((start + windowMs - now) / 1000);
+
+    res.setHeader("RateLimit-Limit", limit);
+    res.setHeader("RateLimit-Reset", reset);
+
+    if (used >= limit) {
+      rateLimitRejectionsCounter.inc({
+        policy,
+        method: req.method,
+        route: req.route?.path,
+      });
+
+      res.setHeader("RateLimit-Remaining", 0);
+
+      return next(
+        new TooManyRequestsError("Too many requests, try again later", reset)
+      );
+    }
+
+    current.count += 1;
+
+    res.setHeader("RateLimit-Remaining", limit - used - 1);
+
+    return next();
+  };
+};
+
+export default rateLimit;
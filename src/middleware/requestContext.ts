@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from "express";
+import log from "../utils/logger";
+import { requestContext } from "../utils/requestContext";
+
+// Makes a logger bound to the request available to everything that runs for the
+// request through getLogger(). Registered after deserializeUser so the user and
+// session are known.
+const bindRequestContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const requestId = res.locals.requestId;
+  const user = res.locals.user;
+
+  const logger = log.child({
+    requestId,
+    ...(user && { userId: user._id, sessionId: user.session }),
+  });
+
+  return requestContext.run({ requestId, userId: user?._id, logger }, () =>
+    next()
+  );
+};
+
+export default bindRequestContext;
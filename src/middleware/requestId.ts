@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from "express";
+import { nanoid } from "nanoid";
+
+// Reuses the id set by the proxy or the client so a request can be traced
+// across services, otherwise generates one
+const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const id = req.get("x-request-id") || nanoid();
+
+  res.locals.requestId = id;
+  res.setHeader("x-request-id", id);
+
+  return next();
+};
+
+export default requestId;
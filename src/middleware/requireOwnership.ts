@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from "express";
+import asyncHandler from "../utils/asyncHandler";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
+import { hasPermission, Permission } from "../utils/permissions";
+
+interface OwnershipPolicy<T> {
+  // Loads the resource the request is about, null when it does not exist
+  find: (req: Request) => Promise<T | null>;
+  // Used in the 404 detail, e.g. "Product"
+  name: string;
+  // The id of the user that owns the resource, or the ids of the users that
+  // share it
+  owner: (resource: T) => unknown;
+  // Lets users other than the owner through, e.g. admins
+  permission: Permission;
+  // The res.locals key the resource is stored under for the handler
+  local: string;
+}
+
+const requireOwnership = <T>({
+  find,
+  name,
+  owner,
+  permission,
+  local,
+}: OwnershipPolicy<T>) =>
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const user = res.locals.user;
+
+    if (!user) {
+      throw new ForbiddenError("You must be logged in");
+    }
+
+    const resource = await find(req);
+
+    if (!resource) {
+      throw new NotFoundError(`${name} not found`);
+    }
+
+    const owners = ([] as unknown[]).concat(owner(resource));
+
+    if (
+      !owners.some((id) => String(id) === String(user._id)) &&
+      !hasPermission(user, permission)
+    ) {
+      throw new ForbiddenError(`You don't own this ${name.toLowerCase()}`);
+    }
+
+    res.locals[local] = resource;
+
+    return next();
+  });
+
+export default requireOwnership;
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from "express";
+import { ForbiddenError } from "../utils/errors";
+import { hasPermission, Permission } from "../utils/permissions";
+
+const requirePermission =
+  (...permissions: Permission[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = res.locals.user;
+
+    if (!user) {
+      return next(new ForbiddenError("You must be logged in"));
+    }
+
+    if (!permissions.every((permission) => hasPermission(user, permission))) {
+      return next(new ForbiddenError("You don't have permission to do this"));
+    }
+
+    return next();
+  };
+
+export default requirePermission;
@@ -1,10 +1,11 @@
 import { Request, Response, NextFunction } from "express";
+import { ForbiddenError } from "../utils/errors";
 
 const requireUser = (req: Request, res: Response, next: NextFunction) => {
   const user = res.locals.user;
 
   if (!user) {
-    return res.sendStatus(403);
+    return next(new ForbiddenError("You must be logged in"));
   }
 
   return next();
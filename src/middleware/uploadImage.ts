@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from "express";
+import config from "config";
+import multer from "multer";
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "../utils/errors";
+
+// Keeps the upload in memory, it is resized before anything is stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.get<number>("images.maxSize"),
+    files: 1,
+  },
+  fileFilter(req, file, callback) {
+    if (!config.get<string[]>("images.allowedTypes").includes(file.mimetype)) {
+      return callback(
+        new UnsupportedMediaTypeError(`${file.mimetype} images are not allowed`)
+      );
+    }
+
+    return callback(null, true);
+  },
+}).single("image");
+
+// Reads a single multipart/form-data file from the "image" field into req.file
+const uploadImage = (req: Request, res: Response, next: NextFunction) =>
+  upload(req, res, (e: any) => {
+    if (e instanceof multer.MulterError) {
+      return next(
+        e.code === "LIMIT_FILE_SIZE"
+          ? new PayloadTooLargeError(
+              `The image must be smaller than ${config.get<number>(
+                "images.maxSize"
+              )} bytes`
+            )
+          : new BadRequestError(e.message)
+      );
+    }
+
+    if (e) return next(e);
+
+    if (!req.file) {
+      return next(new BadRequestError("An image is required"));
+    }
+
+    return next();
+  });
+
+export default uploadImage;
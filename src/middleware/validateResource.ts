@@ -1,18 +1,25 @@
 import { Request, Response, NextFunction } from "express";
 import { AnyZodObject } from "zod";
+import { ValidationError } from "../utils/errors";
 
 const validate =
   (schema: AnyZodObject) =>
   (req: Request, res: Response, next: NextFunction) => {
     try {
-      schema.parse({
+      const parsed = schema.parse({
         body: req.body,
         query: req.query,
         params: req.params,
       });
+
+      // Hand the parsed values (defaults, coerced query strings) to the handlers
+      if (parsed.body) req.body = parsed.body;
+      if (parsed.query) req.query = parsed.query;
+      if (parsed.params) req.params = parsed.params;
+
       next();
     } catch (e: any) {
-      return res.status(400).send(e.errors);
+      return next(new ValidationError(e.errors));
     }
   };
 
@@ -0,0 +1,57 @@
+import mongoose from "mongoose";
+import { UserDocument } from "./user.model";
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEventInput {
+  // Missing for anonymous events such as failed logins
+  actor?: UserDocument["_id"];
+  // e.g. product.update or session.create
+  action: string;
+  target: {
+    type: string;
+    id: string;
+  };
+  // Only the fields that changed
+  changes?: Record<string, AuditChange>;
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+export interface AuditEventDocument extends AuditEventInput, mongoose.Document {
+  createdAt: Date;
+}
+
+const auditEventSchema = new mongoose.Schema(
+  {
+    actor: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    action: { type: String, required: true },
+    target: {
+      type: { type: String, required: true },
+      id: { type: String, required: true },
+    },
+    changes: { type: mongoose.Schema.Types.Mixed },
+    ip: { type: String },
+    userAgent: { type: String },
+    requestId: { type: String },
+  },
+  {
+    // Audit events are never updated
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+auditEventSchema.index({ actor: 1, createdAt: -1 });
+auditEventSchema.index({ "target.type": 1, "target.id": 1, createdAt: -1 });
+auditEventSchema.index({ createdAt: -1 });
+
+const AuditEventModel = mongoose.model<AuditEventDocument>(
+  "AuditEvent",
+  auditEventSchema
+);
+
+export default AuditEventModel;
@@ -0,0 +1,43 @@
+import mongoose from "mongoose";
+import { UserDocument } from "./user.model";
+
+export interface CartItem {
+  // The productId of the product
+  product: string;
+  quantity: number;
+}
+
+export interface CartDocument extends mongoose.Document {
+  user: UserDocument["_id"];
+  items: CartItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const cartItemSchema = new mongoose.Schema(
+  {
+    product: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+// Every user has a single cart, created the first time an item is added
+const cartSchema = new mongoose.Schema(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+    },
+    items: { type: [cartItemSchema], default: [] },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CartModel = mongoose.model<CartDocument>("Cart", cartSchema);
+
+export default CartModel;
@@ -0,0 +1,45 @@
+import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
+
+const nanoid = customAlphabet("abcdefghijklmnopqrstuvwxyz0123456789", 10);
+
+export interface CategoryInput {
+  name: string;
+  description?: string;
+  // The categoryId of the parent, null for top level categories
+  parent: string | null;
+}
+
+export interface CategoryDocument extends CategoryInput, mongoose.Document {
+  categoryId: string;
+  // categoryIds from the top level category down to the parent, so a subtree
+  // can be found with a single query
+  ancestors: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const categorySchema = new mongoose.Schema(
+  {
+    categoryId: {
+      type: String,
+      required: true,
+      unique: true,
+      default: () => `category_${nanoid()}`,
+    },
+    name: { type: String, required: true },
+    description: { type: String },
+    parent: { type: String, default: null, index: true },
+    ancestors: { type: [String], default: [], index: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CategoryModel = mongoose.model<CategoryDocument>(
+  "Category",
+  categorySchema
+);
+
+export default CategoryModel;
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+import { UserDocument } from "./user.model";
+
+export interface EmailVerificationTokenDocument extends mongoose.Document {
+  user: UserDocument["_id"];
+  // Only a sha256 hash of the token is stored, the token itself is emailed
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailVerificationTokenSchema = new mongoose.Schema(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    // Removed by MongoDB once expired
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const EmailVerificationTokenModel =
+  mongoose.model<EmailVerificationTokenDocument>(
+    "EmailVerificationToken",
+    emailVerificationTokenSchema
+  );
+
+export default EmailVerificationTokenModel;
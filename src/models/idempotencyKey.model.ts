@@ -0,0 +1,61 @@
+import mongoose from "mongoose";
+import { UserDocument } from "./user.model";
+
+export interface IdempotentResponse {
+  statusCode: number;
+  // Only the headers that describe the body, e.g. Content-Type and ETag
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface IdempotencyKeyInput {
+  // The Idempotency-Key header, keys are scoped to the user that sent them
+  key: string;
+  user: UserDocument["_id"];
+  method: string;
+  path: string;
+  // SHA-256 of the request body, a reused key must come with the same body
+  requestHash: string;
+}
+
+export interface IdempotencyKeyDocument
+  extends IdempotencyKeyInput,
+    mongoose.Document {
+  // Missing while the first request is being handled
+  response?: IdempotentResponse;
+  // Another request may take over a key that is still unanswered after this
+  lockedUntil: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new mongoose.Schema(
+  {
+    key: { type: String, required: true },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    requestHash: { type: String, required: true },
+    response: {
+      statusCode: { type: Number },
+      headers: { type: Object },
+      body: { type: String },
+    },
+    lockedUntil: { type: Date, required: true },
+    // Removed by MongoDB once expired
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+idempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+
+const IdempotencyKeyModel = mongoose.model<IdempotencyKeyDocument>(
+  "IdempotencyKey",
+  idempotencyKeySchema
+);
+
+export default IdempotencyKeyModel;
@@ -0,0 +1,26 @@
+import mongoose from "mongoose";
+
+export interface LoginAttemptDocument extends mongoose.Document {
+  // e.g. account:jane.doe@example.com or ip:127.0.0.1
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+const loginAttemptSchema = new mongoose.Schema({
+  key: { type: String, required: true, unique: true },
+  failures: { type: Number, default: 0 },
+  lastFailureAt: { type: Date },
+  lockedUntil: { type: Date },
+  // Removed by MongoDB once expired
+  expiresAt: { type: Date, required: true, expires: 0 },
+});
+
+const LoginAttemptModel = mongoose.model<LoginAttemptDocument>(
+  "LoginAttempt",
+  loginAttemptSchema
+);
+
+export default LoginAttemptModel;
@@ -0,0 +1,107 @@
+import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
+import { UserDocument } from "./user.model";
+
+const nanoid = customAlphabet("abcdefghijklmnopqrstuvwxyz0123456789", 10);
+
+export const orderStatuses = [
+  "pending",
+  "paid",
+  "fulfilled",
+  "cancelled",
+] as const;
+
+export type OrderStatus = (typeof orderStatuses)[number];
+
+// A snapshot of the product when the order was placed, later changes to the
+// product don't change the order
+export interface OrderItem {
+  product: string;
+  // The owner of the product
+  seller: UserDocument["_id"];
+  title: string;
+  // In minor units, for a single unit
+  price: number;
+  quantity: number;
+  // Holds the units until the order is paid or cancelled
+  reservation: string;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  // Missing for changes made by the app itself
+  changedBy?: UserDocument["_id"];
+  reason?: string;
+  // The intentId of the payment that paid the order
+  payment?: string;
+  at: Date;
+}
+
+export interface OrderInput {
+  user: UserDocument["_id"];
+  items: OrderItem[];
+  currency: string;
+  // In minor units
+  total: number;
+}
+
+export interface OrderDocument extends OrderInput, mongoose.Document {
+  orderId: string;
+  status: OrderStatus;
+  // The sellers of the items, so sellers can find their orders
+  sellers: UserDocument["_id"][];
+  statusHistory: OrderStatusChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const orderItemSchema = new mongoose.Schema(
+  {
+    product: { type: String, required: true },
+    seller: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    title: { type: String, required: true },
+    price: { type: Number, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    reservation: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const statusChangeSchema = new mongoose.Schema(
+  {
+    status: { type: String, enum: orderStatuses, required: true },
+    changedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    reason: { type: String },
+    payment: { type: String },
+    at: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const orderSchema = new mongoose.Schema(
+  {
+    orderId: {
+      type: String,
+      required: true,
+      unique: true,
+      default: () => `order_${nanoid()}`,
+    },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    items: { type: [orderItemSchema], required: true },
+    currency: { type: String, required: true },
+    total: { type: Number, required: true },
+    status: { type: String, enum: orderStatuses, default: "pending" },
+    sellers: [{ type: mongoose.Schema.Types.ObjectId, ref: "User" }],
+    statusHistory: { type: [statusChangeSchema], default: [] },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+orderSchema.index({ user: 1, createdAt: -1 });
+orderSchema.index({ sellers: 1, createdAt: -1 });
+
+const OrderModel = mongoose.model<OrderDocument>("Order", orderSchema);
+
+export default OrderModel;
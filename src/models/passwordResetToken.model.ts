@@ -0,0 +1,32 @@
+import mongoose from "mongoose";
+import { UserDocument } from "./user.model";
+
+export interface PasswordResetTokenDocument extends mongoose.Document {
+  user: UserDocument["_id"];
+  // Only a sha256 hash of the token is stored, the token itself is emailed
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const passwordResetTokenSchema = new mongoose.Schema(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    // Removed by MongoDB once expired
+    expiresAt: { type: Date, required: true, expires: 0 },
+    usedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const PasswordResetTokenModel = mongoose.model<PasswordResetTokenDocument>(
+  "PasswordResetToken",
+  passwordResetTokenSchema
+);
+
+export default PasswordResetTokenModel;
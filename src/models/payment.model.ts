@@ -0,0 +1,56 @@
+import mongoose from "mongoose";
+
+export const paymentStatuses = [
+  "pending",
+  "succeeded",
+  "failed",
+  "refunded",
+] as const;
+
+export type PaymentStatus = (typeof paymentStatuses)[number];
+
+export interface PaymentInput {
+  // The orderId of the order being paid
+  order: string;
+  provider: string;
+  // The provider's id for the payment
+  intentId: string;
+  clientSecret: string;
+  // In minor units
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentDocument extends PaymentInput, mongoose.Document {
+  status: PaymentStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentSchema = new mongoose.Schema(
+  {
+    order: { type: String, required: true, index: true },
+    provider: { type: String, required: true },
+    intentId: { type: String, required: true },
+    clientSecret: { type: String, required: true, select: false },
+    amount: { type: Number, required: true },
+    currency: { type: String, required: true },
+    status: { type: String, enum: paymentStatuses, default: "pending" },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+paymentSchema.index({ provider: 1, intentId: 1 }, { unique: true });
+
+// An order has at most one payment in progress, so concurrent checkouts share
+// it instead of starting two
+paymentSchema.index(
+  { order: 1, provider: 1 },
+  { unique: true, partialFilterExpression: { status: "pending" } }
+);
+
+const PaymentModel = mongoose.model<PaymentDocument>("Payment", paymentSchema);
+
+export default PaymentModel;
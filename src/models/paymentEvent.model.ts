@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+export interface PaymentEventInput {
+  provider: string;
+  // The provider's id for the event
+  eventId: string;
+  type: string;
+  intentId: string;
+}
+
+export interface PaymentEventDocument
+  extends PaymentEventInput,
+    mongoose.Document {
+  createdAt: Date;
+}
+
+// Webhook events that have been handled, so a redelivered event is ignored
+const paymentEventSchema = new mongoose.Schema(
+  {
+    provider: { type: String, required: true },
+    eventId: { type: String, required: true },
+    type: { type: String, required: true },
+    intentId: { type: String, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+paymentEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+const PaymentEventModel = mongoose.model<PaymentEventDocument>(
+  "PaymentEvent",
+  paymentEventSchema
+);
+
+export default PaymentEventModel;
@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+import { UserDocument } from "./user.model";
+
+export interface PriceChangeInput {
+  // The productId of the product
+  product: string;
+  // In minor units, e.g. cents
+  price: number;
+  currency: string;
+  // Missing for changes made outside of a request
+  changedBy?: UserDocument["_id"];
+}
+
+export interface PriceChangeDocument
+  extends PriceChangeInput,
+    mongoose.Document {
+  createdAt: Date;
+}
+
+const priceChangeSchema = new mongoose.Schema(
+  {
+    product: { type: String, required: true },
+    price: { type: Number, required: true },
+    currency: { type: String, required: true },
+    changedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+priceChangeSchema.index({ product: 1, createdAt: -1, _id: -1 });
+
+const PriceChangeModel = mongoose.model<PriceChangeDocument>(
+  "PriceChange",
+  priceChangeSchema
+);
+
+export default PriceChangeModel;
@@ -8,15 +8,57 @@ export interface ProductInput {
   user: UserDocument["_id"];
   title: string;
   description: string;
+  // In minor units of the currency, e.g. cents
   price: number;
-  image: string;
+  // ISO 4217 code, e.g. USD
+  currency: string;
+  // Either an external URL or the URL of the uploaded original
+  image?: string;
+  // The categoryId of the category the product is listed in
+  category?: string;
+  // Lowercase and without duplicates
+  tags?: string[];
+}
+
+// A file stored for an uploaded image, the original or one of its thumbnails
+export interface ProductImageFile {
+  name: string;
+  key: string;
+  url: string;
+  contentType: string;
+  width: number;
+  height: number;
+  size: number;
 }
 
 export interface ProductDocument extends ProductInput, mongoose.Document {
+  productId: string;
+  imageFiles: ProductImageFile[];
+  // Units on hand, including the reserved ones
+  stock: number;
+  // Units held by active reservations, never more than stock
+  reserved: number;
+  // The words of the title and description, for prefix searches
+  searchWords: string[];
+  // Set when the product is moved to the trash
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const imageFileSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true },
+    key: { type: String, required: true },
+    url: { type: String, required: true },
+    contentType: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    size: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
 const productSchema = new mongoose.Schema(
   {
     productId: {
@@ -28,14 +70,36 @@ const productSchema = new mongoose.Schema(
     user: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
     title: { type: String, required: true },
     description: { type: String, required: true },
-    price: { type: Number, required: true },
-    image: { type: String, required: true },
+    price: {
+      type: Number,
+      required: true,
+      min: 0,
+      validate: {
+        validator: Number.isInteger,
+        message: "Price must be an integer amount of minor units",
+      },
+    },
+    currency: { type: String, required: true, uppercase: true },
+    image: { type: String },
+    imageFiles: { type: [imageFileSchema], default: [] },
+    stock: { type: Number, default: 0, min: 0 },
+    reserved: { type: Number, default: 0, min: 0 },
+    category: { type: String, index: true },
+    tags: { type: [String], default: [], index: true },
+    deletedAt: { type: Date, default: null, index: true },
+    searchWords: { type: [String], index: true, select: false },
   },
   {
     timestamps: true,
   }
 );
 
+// Used by searchProducts, a match in the title counts for more
+productSchema.index(
+  { title: "text", description: "text" },
+  { name: "product_text", weights: { title: 10, description: 2 } }
+);
+
 const ProductModel = mongoose.model<ProductDocument>("Product", productSchema);
 
 export default ProductModel;
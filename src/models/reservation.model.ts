@@ -0,0 +1,65 @@
+import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
+import { UserDocument } from "./user.model";
+
+const nanoid = customAlphabet("abcdefghijklmnopqrstuvwxyz0123456789", 10);
+
+export const reservationStatuses = [
+  "active",
+  "released",
+  "committed",
+  "expired",
+] as const;
+
+export type ReservationStatus = (typeof reservationStatuses)[number];
+
+export interface ReservationInput {
+  // The productId of the reserved product
+  product: string;
+  user: UserDocument["_id"];
+  quantity: number;
+  expiresAt: Date;
+}
+
+export interface ReservationDocument
+  extends ReservationInput,
+    mongoose.Document {
+  reservationId: string;
+  // Only active reservations hold stock
+  status: ReservationStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reservationSchema = new mongoose.Schema(
+  {
+    reservationId: {
+      type: String,
+      required: true,
+      unique: true,
+      default: () => `reservation_${nanoid()}`,
+    },
+    product: { type: String, required: true, index: true },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: "User", index: true },
+    quantity: { type: Number, required: true, min: 1 },
+    status: {
+      type: String,
+      enum: reservationStatuses,
+      default: "active",
+    },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Used to find the reservations to expire
+reservationSchema.index({ status: 1, expiresAt: 1 });
+
+const ReservationModel = mongoose.model<ReservationDocument>(
+  "Reservation",
+  reservationSchema
+);
+
+export default ReservationModel;
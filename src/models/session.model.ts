@@ -1,10 +1,19 @@
 import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
 import { UserDocument } from "./user.model";
 
+export const generateRefreshTokenId = customAlphabet(
+  "abcdefghijklmnopqrstuvwxyz0123456789",
+  21
+);
+
 export interface SessionDocument extends mongoose.Document {
   user: UserDocument["_id"];
   valid: boolean;
   userAgent: string;
+  refreshTokenId: string;
+  previousRefreshTokenId?: string;
+  rotatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -14,6 +23,15 @@ const sessionSchema = new mongoose.Schema(
     user: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
     valid: { type: Boolean, default: true },
     userAgent: { type: String },
+    // The id (jti) of the only refresh token that may currently be used for this session
+    refreshTokenId: {
+      type: String,
+      default: () => generateRefreshTokenId(),
+      select: false,
+    },
+    // The token refreshTokenId replaced, accepted for a short while after rotatedAt
+    previousRefreshTokenId: { type: String, select: false },
+    rotatedAt: { type: Date },
   },
   {
     timestamps: true,
@@ -1,6 +1,7 @@
 import mongoose from "mongoose";
 import bcrypt from "bcrypt";
 import config from "config";
+import { Role, roles } from "../utils/permissions";
 
 export interface UserInput {
   email: string;
@@ -9,6 +10,9 @@ export interface UserInput {
 }
 
 export interface UserDocument extends UserInput, mongoose.Document {
+  role: Role;
+  disabled: boolean;
+  verified: boolean;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<Boolean>;
@@ -19,6 +23,9 @@ const userSchema = new mongoose.Schema(
     email: { type: String, required: true, unique: true },
     name: { type: String, required: true },
     password: { type: String, required: true },
+    role: { type: String, enum: roles, default: "user" },
+    disabled: { type: Boolean, default: false },
+    verified: { type: Boolean, default: false },
   },
   {
     timestamps: true,
@@ -0,0 +1,58 @@
+import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
+import { UserDocument } from "./user.model";
+
+const nanoid = customAlphabet("abcdefghijklmnopqrstuvwxyz0123456789", 10);
+
+export const webhookEvents = [
+  "product.created",
+  "product.updated",
+  "product.deleted",
+] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+export interface WebhookInput {
+  user: UserDocument["_id"];
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  // Inactive webhooks keep their delivery log but aren't sent new events
+  active?: boolean;
+}
+
+export interface WebhookDocument extends WebhookInput, mongoose.Document {
+  webhookId: string;
+  // Signs the deliveries, only returned when the webhook is created
+  secret: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema = new mongoose.Schema(
+  {
+    webhookId: {
+      type: String,
+      required: true,
+      unique: true,
+      default: () => `webhook_${nanoid()}`,
+    },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: "User", index: true },
+    url: { type: String, required: true },
+    events: { type: [String], enum: webhookEvents, required: true },
+    description: { type: String },
+    secret: { type: String, required: true, select: false },
+    active: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Used to find the webhooks an event is sent to
+webhookSchema.index({ active: 1, events: 1 });
+
+const WebhookModel = mongoose.model<WebhookDocument>("Webhook", webhookSchema);
+
+export default WebhookModel;
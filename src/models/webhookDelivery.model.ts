@@ -0,0 +1,102 @@
+import config from "config";
+import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
+import { WebhookEvent } from "./webhook.model";
+
+const nanoid = customAlphabet("abcdefghijklmnopqrstuvwxyz0123456789", 10);
+
+export const webhookDeliveryStatuses = [
+  "pending",
+  "succeeded",
+  "failed",
+] as const;
+
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  // Missing when the endpoint couldn't be reached
+  responseStatus?: number;
+  error?: string;
+  // In milliseconds
+  duration: number;
+}
+
+export interface WebhookDeliveryInput {
+  // The webhookId of the webhook
+  webhook: string;
+  // Replays send the same event again, so receivers can recognise them
+  eventId: string;
+  event: WebhookEvent;
+  // The exact JSON body that is signed and sent
+  payload: string;
+  // The deliveryId of the delivery this one replays
+  replayOf?: string;
+}
+
+export interface WebhookDeliveryDocument
+  extends WebhookDeliveryInput,
+    mongoose.Document {
+  deliveryId: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  // When a pending delivery is next sent
+  nextAttemptAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attemptSchema = new mongoose.Schema(
+  {
+    attemptedAt: { type: Date, required: true },
+    responseStatus: { type: Number },
+    error: { type: String },
+    duration: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const webhookDeliverySchema = new mongoose.Schema(
+  {
+    deliveryId: {
+      type: String,
+      required: true,
+      unique: true,
+      default: () => `delivery_${nanoid()}`,
+    },
+    webhook: { type: String, required: true },
+    eventId: { type: String, required: true },
+    event: { type: String, required: true },
+    payload: { type: String, required: true },
+    replayOf: { type: String },
+    status: {
+      type: String,
+      enum: webhookDeliveryStatuses,
+      default: "pending",
+    },
+    attempts: { type: [attemptSchema], default: [] },
+    nextAttemptAt: { type: Date, default: () => new Date() },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The delivery log of a webhook, newest first
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1, _id: -1 });
+
+// Used to find the deliveries that are due
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Removed by MongoDB once they are older than the retention
+webhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: config.get<number>("webhooks.deliveryRetention") }
+);
+
+const WebhookDeliveryModel = mongoose.model<WebhookDeliveryDocument>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);
+
+export default WebhookDeliveryModel;
@@ -1,7 +1,17 @@
-import { Express, Request, Response } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import {
   createProductHandler,
   getProductHandler,
+  listProductsHandler,
+  getProductFacetsHandler,
+  searchProductsHandler,
+  getPriceHistoryHandler,
+  adjustStockHandler,
+  getAvailabilityHandler,
+  patchProductHandler,
+  listTrashedProductsHandler,
+  restoreProductHandler,
+  uploadProductImageHandler,
   updateProductHandler,
   deleteProductHandler,
 } from "./controller/product.controller";
@@ -9,18 +19,214 @@ import {
   createUserSessionHandler,
   getUserSessionsHandler,
   deleteSessionHandler,
+  refreshSessionHandler,
 } from "./controller/session.controller";
-import { createUserHandler } from "./controller/user.controller";
+import { listAuditEventsHandler } from "./controller/audit.controller";
+import {
+  resendVerificationEmailHandler,
+  verifyEmailHandler,
+} from "./controller/emailVerification.controller";
+import {
+  requestPasswordResetHandler,
+  resetPasswordHandler,
+} from "./controller/passwordReset.controller";
+import {
+  changePasswordHandler,
+  createUserHandler,
+  deleteMeHandler,
+  deleteUserHandler,
+  disableUserHandler,
+  enableUserHandler,
+  getMeHandler,
+  getUserHandler,
+  listUsersHandler,
+  updateMeHandler,
+} from "./controller/user.controller";
 import requireUser from "./middleware/requireUser";
+import loginProtection from "./middleware/loginProtection";
+import rateLimit from "./middleware/rateLimit";
+import {
+  createCategoryHandler,
+  deleteCategoryHandler,
+  getCategoryHandler,
+  listCategoriesHandler,
+  updateCategoryHandler,
+} from "./controller/category.controller";
+import {
+  getReservationHandler,
+  releaseReservationHandler,
+  reserveStockHandler,
+} from "./controller/reservation.controller";
+import {
+  clearCartHandler,
+  getCartHandler,
+  removeCartItemHandler,
+  setCartItemHandler,
+} from "./controller/cart.controller";
+import {
+  cancelOrderHandler,
+  createOrderHandler,
+  fulfilOrderHandler,
+  getOrderHandler,
+  listOrdersHandler,
+  listSellerOrdersHandler,
+  payOrderHandler,
+} from "./controller/order.controller";
+import {
+  createPaymentIntentHandler,
+  fakePaymentEventHandler,
+  paymentWebhookHandler,
+} from "./controller/payment.controller";
+import {
+  createWebhookHandler,
+  deleteWebhookHandler,
+  getWebhookHandler,
+  listWebhookDeliveriesHandler,
+  listWebhooksHandler,
+  replayWebhookDeliveryHandler,
+  updateWebhookHandler,
+} from "./controller/webhook.controller";
+import requireOwnership from "./middleware/requireOwnership";
+import uploadImage from "./middleware/uploadImage";
+import requirePermission from "./middleware/requirePermission";
 import validateResource from "./middleware/validateResource";
+import idempotency from "./middleware/idempotency";
+import asyncHandler from "./utils/asyncHandler";
+import { fakePaymentsEnabled, paymentsEnabled } from "./utils/payments";
 import {
   createProductSchema,
   deleteProductSchema,
   getProductSchema,
+  jsonPatchProductSchema,
+  listProductsSchema,
+  productFacetsSchema,
+  searchProductsSchema,
+  getPriceHistorySchema,
+  adjustStockSchema,
+  getAvailabilitySchema,
+  reserveStockSchema,
+  listTrashedProductsSchema,
+  patchProductSchema,
+  restoreProductSchema,
+  uploadProductImageSchema,
   updateProductSchema,
 } from "./schema/product.schema";
-import { createSessionSchema } from "./schema/session.schema";
-import { createUserSchema } from "./schema/user.schema";
+import { listAuditEventsSchema } from "./schema/audit.schema";
+import { removeCartItemSchema, setCartItemSchema } from "./schema/cart.schema";
+import {
+  getOrderSchema,
+  listOrdersSchema,
+  updateOrderStatusSchema,
+} from "./schema/order.schema";
+import {
+  createPaymentIntentSchema,
+  fakePaymentEventSchema,
+} from "./schema/payment.schema";
+import {
+  createWebhookSchema,
+  deleteWebhookSchema,
+  getWebhookSchema,
+  listWebhookDeliveriesSchema,
+  replayWebhookDeliverySchema,
+  updateWebhookSchema,
+} from "./schema/webhook.schema";
+import {
+  getReservationSchema,
+  releaseReservationSchema,
+} from "./schema/reservation.schema";
+import {
+  createCategorySchema,
+  deleteCategorySchema,
+  getCategorySchema,
+  updateCategorySchema,
+} from "./schema/category.schema";
+import {
+  resendVerificationEmailSchema,
+  verifyEmailSchema,
+} from "./schema/emailVerification.schema";
+import {
+  requestPasswordResetSchema,
+  resetPasswordSchema,
+} from "./schema/passwordReset.schema";
+import {
+  createSessionSchema,
+  refreshSessionSchema,
+} from "./schema/session.schema";
+import {
+  changePasswordSchema,
+  createUserSchema,
+  deleteUserSchema,
+  disableUserSchema,
+  getUserSchema,
+  listUsersSchema,
+  updateMeSchema,
+} from "./schema/user.schema";
+import { findProduct, findReservation } from "./service/product.service";
+import { findOrder } from "./service/order.service";
+import { findWebhook } from "./service/webhook.service";
+
+const validateProductPatch = validateResource(patchProductSchema);
+const validateProductJsonPatch = validateResource(jsonPatchProductSchema);
+
+// JSON Patch bodies are a list of operations, anything else is a partial product
+const validateProductPatchBody = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) =>
+  req.is("application/json-patch+json")
+    ? validateProductJsonPatch(req, res, next)
+    : validateProductPatch(req, res, next);
+
+// Only the owner of a product, or a user that can moderate products, may change it
+const productOwnerOrModerator = requireOwnership({
+  find: (req: Request) => findProduct({ productId: req.params.productId }),
+  name: "Product",
+  owner: (product) => product.user,
+  permission: "products:moderate",
+  local: "product",
+});
+
+// The same policy for products in the trash
+const trashedProductOwnerOrModerator = requireOwnership({
+  find: (req: Request) =>
+    findProduct({
+      productId: req.params.productId,
+      deletedAt: { $ne: null },
+    }),
+  name: "Product",
+  owner: (product) => product.user,
+  permission: "products:moderate",
+  local: "product",
+});
+
+// Reservations belong to the user that made them
+const reservationOwnerOrModerator = requireOwnership({
+  find: (req: Request) =>
+    findReservation({ reservationId: req.params.reservationId }),
+  name: "Reservation",
+  owner: (reservation) => reservation.user,
+  permission: "products:moderate",
+  local: "reservation",
+});
+
+// Orders can be seen by the buyer and by the sellers of their products
+const orderParticipant = requireOwnership({
+  find: (req: Request) => findOrder({ orderId: req.params.orderId }),
+  name: "Order",
+  owner: (order) => [order.user, ...order.sellers],
+  permission: "orders:manage",
+  local: "order",
+});
+
+// Webhooks belong to the user that registered them
+const webhookOwner = requireOwnership({
+  find: (req: Request) => findWebhook({ webhookId: req.params.webhookId }),
+  name: "Webhook",
+  owner: (webhook) => webhook.user,
+  permission: "webhooks:manage",
+  local: "webhook",
+});
 
 function routes(app: Express) {
   /**
@@ -43,6 +249,7 @@ function routes(app: Express) {
    *     tags:
    *     - User
    *     summary: Register a user
+   *     description: A verification email is sent to the address
    *     requestBody:
    *      required: true
    *      content:
@@ -61,181 +268,2041 @@ function routes(app: Express) {
    *      400:
    *        description: Bad request
    */
-  app.post("/api/users", validateResource(createUserSchema), createUserHandler);
+  app.post(
+    "/api/users",
+    [
+      rateLimit({ policy: "createUser", key: "ip" }),
+      validateResource(createUserSchema),
+    ],
+    asyncHandler(createUserHandler)
+  );
 
   /**
    * @openapi
-   * '/api/sessions':
+   * '/api/me':
    *  get:
-   *    tags:
-   *    - Session
-   *    summary: Get all sessions
-   *    responses:
+   *     tags:
+   *     - Me
+   *     summary: Get the current user
+   *     responses:
    *      200:
-   *        description: Get all sessions for current user
+   *        description: Success
    *        content:
    *          application/json:
    *            schema:
-   *              $ref: '#/components/schemas/GetSessionResponse'
+   *              $ref: '#/components/schemas/CreateUserResponse'
    *      403:
    *        description: Forbidden
-   *  post:
-   *    tags:
-   *    - Session
-   *    summary: Create a session
-   *    requestBody:
+   *  patch:
+   *     tags:
+   *     - Me
+   *     summary: Update the name or email of the current user
+   *     description: A new email has to be verified again, a verification email is sent to it
+   *     requestBody:
    *      required: true
    *      content:
    *        application/json:
-   *          schema:
-   *            $ref: '#/components/schemas/CreateSessionInput'
-   *    responses:
+   *           schema:
+   *              $ref: '#/components/schemas/UpdateMeInput'
+   *     responses:
    *      200:
-   *        description: Session created
+   *        description: Success
    *        content:
    *          application/json:
    *            schema:
-   *              $ref: '#/components/schemas/CreateSessionResponse'
-   *      401:
-   *        description: Unauthorized
+   *              $ref: '#/components/schemas/CreateUserResponse'
+   *      400:
+   *        description: Bad request
+   *      403:
+   *        description: Forbidden
+   *      409:
+   *        description: Email is already in use
    *  delete:
-   *    tags:
-   *    - Session
-   *    summary: Delete a session
-   *    responses:
+   *     tags:
+   *     - Me
+   *     summary: Delete the current user, their sessions and their products
+   *     responses:
    *      200:
-   *        description: Session deleted
+   *        description: User deleted
    *      403:
    *        description: Forbidden
    */
-  app.post(
-    "/api/sessions",
-    validateResource(createSessionSchema),
-    createUserSessionHandler
-  );
+  app.get("/api/me", requireUser, asyncHandler(getMeHandler));
 
-  app.get("/api/sessions", requireUser, getUserSessionsHandler);
+  app.patch(
+    "/api/me",
+    [requireUser, validateResource(updateMeSchema)],
+    asyncHandler(updateMeHandler)
+  );
 
-  app.delete("/api/sessions", requireUser, deleteSessionHandler);
+  app.delete("/api/me", requireUser, asyncHandler(deleteMeHandler));
 
   /**
    * @openapi
-   * '/api/products':
-   *  post:
+   * '/api/me/password':
+   *  put:
    *     tags:
-   *     - Products
-   *     summary: Create a new product
+   *     - Me
+   *     summary: Change the password of the current user
+   *     description: All sessions other than the current one are invalidated
    *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
+   *      required: true
+   *      content:
+   *        application/json:
    *           schema:
-   *             $ref: '#/components/schema/Product'
+   *              $ref: '#/components/schemas/ChangePasswordInput'
    *     responses:
-   *       200:
-   *         description: Product created
-   *         content:
+   *      200:
+   *        description: Password changed
+   *      400:
+   *        description: Bad request
+   *      401:
+   *        description: The current password is wrong
+   *      403:
+   *        description: Forbidden
+   */
+  app.put(
+    "/api/me/password",
+    [requireUser, validateResource(changePasswordSchema)],
+    asyncHandler(changePasswordHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/users':
+   *  get:
+   *     tags:
+   *     - User
+   *     summary: List and search users (admin only)
+   *     parameters:
+   *      - name: cursor
+   *        in: query
+   *        description: The nextCursor returned by the previous page
+   *      - name: limit
+   *        in: query
+   *        description: Page size, between 1 and 100 (defaults to 20)
+   *      - name: q
+   *        in: query
+   *        description: Case-insensitive search on the name and email
+   *      - name: role
+   *        in: query
+   *      - name: disabled
+   *        in: query
+   *     responses:
+   *      200:
+   *        description: Success
+   *        content:
    *          application/json:
-   *           schema:
-   *              $ref: '#/components/schema/productResponse'
-   *           example:
-   *             "user": "642a0de05f16e6dad68efdad"
-   *             "title": "Canon EOS 1500D DSLR Camera with 18-55mm Lens"
-   *             "description": "Designed for first-time DSLR owners who want impressive results straight out of the box, capture those magic moments no matter your level with the EOS 1500D. With easy to use automatic shooting modes, large 24.1 MP sensor, Canon Camera Connect app integration and built-in feature guide, EOS 1500D is always ready to go."
-   *             "price": 879.99
-   *             "image": "https://i.imgur.com/QlRphfQ.jpg"
-   *             "_id": "642a1cfcc1bec76d8a2e7ac2"
-   *             "productId": "product_xxqm8z3eho"
-   *             "createdAt": "2023-04-03T00:25:32.189Z"
-   *             "updatedAt": "2023-04-03T00:25:32.189Z"
-   *             "__v": 0
+   *            schema:
+   *              $ref: '#/components/schemas/UserListResponse'
+   *      403:
+   *        description: Forbidden
    */
-  app.post(
-    "/api/products",
-    [requireUser, validateResource(createProductSchema)],
-    createProductHandler
+  app.get(
+    "/api/users",
+    [requirePermission("users:read"), validateResource(listUsersSchema)],
+    asyncHandler(listUsersHandler)
   );
 
   /**
    * @openapi
-   * '/api/products/{productId}':
+   * '/api/users/{userId}':
    *  get:
    *     tags:
-   *     - Products
-   *     summary: Get a single product by the productId
+   *     - User
+   *     summary: Get a user and their active sessions (admin only)
    *     parameters:
-   *      - name: productId
+   *      - name: userId
    *        in: path
-   *        description: The id of the product
    *        required: true
    *     responses:
-   *       200:
-   *         description: Success
-   *         content:
+   *      200:
+   *        description: Success
+   *        content:
    *          application/json:
-   *           schema:
-   *              $ref: '#/components/schema/productResponse'
-   *       404:
-   *         description: Product not found
-   *  put:
+   *            schema:
+   *              $ref: '#/components/schemas/UserWithSessionsResponse'
+   *      403:
+   *        description: Forbidden
+   *      404:
+   *        description: User not found
+   *  delete:
    *     tags:
-   *     - Products
-   *     summary: Update a single product
+   *     - User
+   *     summary: Delete a user, their sessions and their products (admin only)
    *     parameters:
-   *      - name: productId
+   *      - name: userId
    *        in: path
-   *        description: The id of the product
    *        required: true
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             $ref: '#/components/schema/Product'
    *     responses:
-   *       200:
-   *         description: Success
-   *         content:
+   *      200:
+   *        description: User deleted
+   *      403:
+   *        description: Forbidden
+   *      404:
+   *        description: User not found
+   */
+  app.get(
+    "/api/users/:userId",
+    [requirePermission("users:read"), validateResource(getUserSchema)],
+    asyncHandler(getUserHandler)
+  );
+
+  app.delete(
+    "/api/users/:userId",
+    [requirePermission("users:manage"), validateResource(deleteUserSchema)],
+    asyncHandler(deleteUserHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/users/{userId}/disable':
+   *  post:
+   *     tags:
+   *     - User
+   *     summary: Disable a user and invalidate all of their sessions (admin only)
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: userId
+   *        in: path
+   *        required: true
+   *     responses:
+   *      200:
+   *        description: User disabled
+   *        content:
    *          application/json:
-   *           schema:
-   *              $ref: '#/components/schema/productResponse'
-   *       403:
-   *         description: Forbidden
-   *       404:
-   *         description: Product not found
-   *  delete:
+   *            schema:
+   *              $ref: '#/components/schemas/CreateUserResponse'
+   *      403:
+   *        description: Forbidden
+   *      404:
+   *        description: User not found
+   * '/api/users/{userId}/enable':
+   *  post:
    *     tags:
-   *     - Products
-   *     summary: Delete a single product
+   *     - User
+   *     summary: Enable a disabled user (admin only)
    *     parameters:
-   *      - name: productId
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: userId
    *        in: path
-   *        description: The id of the product
    *        required: true
    *     responses:
-   *       200:
-   *         description: Product deleted
-   *       403:
-   *         description: Forbidden
-   *       404:
-   *         description: Product not found
+   *      200:
+   *        description: User enabled
+   *        content:
+   *          application/json:
+   *            schema:
+   *              $ref: '#/components/schemas/CreateUserResponse'
+   *      403:
+   *        description: Forbidden
+   *      404:
+   *        description: User not found
    */
-  app.put(
-    "/api/products/:productId",
-    [requireUser, validateResource(updateProductSchema)],
-    updateProductHandler
+  app.post(
+    "/api/users/:userId/disable",
+    [
+      requirePermission("users:manage"),
+      idempotency,
+      validateResource(disableUserSchema),
+    ],
+    asyncHandler(disableUserHandler)
   );
 
-  app.get(
-    "/api/products/:productId",
-    validateResource(getProductSchema),
-    getProductHandler
+  app.post(
+    "/api/users/:userId/enable",
+    [
+      requirePermission("users:manage"),
+      idempotency,
+      validateResource(disableUserSchema),
+    ],
+    asyncHandler(enableUserHandler)
   );
 
-  app.delete(
-    "/api/products/:productId",
-    [requireUser, validateResource(deleteProductSchema)],
-    deleteProductHandler
+  /**
+   * @openapi
+   * '/api/sessions':
+   *  get:
+   *    tags:
+   *    - Session
+   *    summary: Get all sessions
+   *    responses:
+   *      200:
+   *        description: Get all sessions for current user
+   *        content:
+   *          application/json:
+   *            schema:
+   *              $ref: '#/components/schemas/GetSessionResponse'
+   *      403:
+   *        description: Forbidden
+   *  post:
+   *    tags:
+   *    - Session
+   *    summary: Create a session
+   *    requestBody:
+   *      required: true
+   *      content:
+   *        application/json:
+   *          schema:
+   *            $ref: '#/components/schemas/CreateSessionInput'
+   *    responses:
+   *      200:
+   *        description: Session created
+   *        content:
+   *          application/json:
+   *            schema:
+   *              $ref: '#/components/schemas/CreateSessionResponse'
+   *      401:
+   *        description: Unauthorized
+   *      423:
+   *        description: Account temporarily locked after too many failed logins, see the Retry-After header
+   *      429:
+   *        description: Too many failed logins, see the Retry-After header
+   *  delete:
+   *    tags:
+   *    - Session
+   *    summary: Delete a session
+   *    responses:
+   *      200:
+   *        description: Session deleted
+   *      403:
+   *        description: Forbidden
+   */
+  app.post(
+    "/api/sessions",
+    [
+      rateLimit({ policy: "createSession", key: "ip" }),
+      validateResource(createSessionSchema),
+      loginProtection,
+    ],
+    asyncHandler(createUserSessionHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/email-verification':
+   *  post:
+   *    tags:
+   *    - Email verification
+   *    summary: Send another verification email
+   *    requestBody:
+   *      required: true
+   *      content:
+   *        application/json:
+   *          schema:
+   *            $ref: '#/components/schemas/ResendVerificationEmailInput'
+   *    responses:
+   *      202:
+   *        description: Sent if the email is registered and unverified, and no email was sent recently
+   *      400:
+   *        description: Bad request
+   *      429:
+   *        description: Too many requests from this address, see the Retry-After header
+   * '/api/email-verification/confirm':
+   *  post:
+   *    tags:
+   *    - Email verification
+   *    summary: Verify an email address with the token from the email
+   *    requestBody:
+   *      required: true
+   *      content:
+   *        application/json:
+   *          schema:
+   *            $ref: '#/components/schemas/VerifyEmailInput'
+   *    responses:
+   *      200:
+   *        description: Email verified
+   *        content:
+   *          application/json:
+   *            schema:
+   *              $ref: '#/components/schemas/CreateUserResponse'
+   *      400:
+   *        description: Bad request, or the token is invalid or expired
+   */
+  app.post(
+    "/api/email-verification",
+    [
+      rateLimit({ policy: "sendEmail", key: "ip" }),
+      validateResource(resendVerificationEmailSchema),
+    ],
+    asyncHandler(resendVerificationEmailHandler)
+  );
+
+  app.post(
+    "/api/email-verification/confirm",
+    validateResource(verifyEmailSchema),
+    asyncHandler(verifyEmailHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/password-reset':
+   *  post:
+   *    tags:
+   *    - Password reset
+   *    summary: Email a password reset link
+   *    requestBody:
+   *      required: true
+   *      content:
+   *        application/json:
+   *          schema:
+   *            $ref: '#/components/schemas/RequestPasswordResetInput'
+   *    responses:
+   *      202:
+   *        description: Sent if the email is registered
+   *      400:
+   *        description: Bad request
+   * '/api/password-reset/confirm':
+   *  post:
+   *    tags:
+   *    - Password reset
+   *    summary: Choose a new password with the token from the email
+   *    description: The token can only be used once. All sessions of the user are invalidated.
+   *    requestBody:
+   *      required: true
+   *      content:
+   *        application/json:
+   *          schema:
+   *            $ref: '#/components/schemas/ResetPasswordInput'
+   *    responses:
+   *      200:
+   *        description: Password changed
+   *      400:
+   *        description: Bad request, or the token is invalid or expired
+   */
+  app.post(
+    "/api/password-reset",
+    [
+      rateLimit({ policy: "sendEmail", key: "ip" }),
+      validateResource(requestPasswordResetSchema),
+    ],
+    asyncHandler(requestPasswordResetHandler)
+  );
+
+  app.post(
+    "/api/password-reset/confirm",
+    validateResource(resetPasswordSchema),
+    asyncHandler(resetPasswordHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/sessions/refresh':
+   *  post:
+   *    tags:
+   *    - Session
+   *    summary: Exchange a refresh token for a new access & refresh token pair
+   *    description: The refresh token is read from the body or the HttpOnly refreshToken cookie. Each refresh token can only be used once.
+   *    requestBody:
+   *      content:
+   *        application/json:
+   *          schema:
+   *            $ref: '#/components/schemas/RefreshSessionInput'
+   *    responses:
+   *      200:
+   *        description: Tokens reissued
+   *        content:
+   *          application/json:
+   *            schema:
+   *              $ref: '#/components/schemas/CreateSessionResponse'
+   *      401:
+   *        description: Unauthorized
+   */
+  app.post(
+    "/api/sessions/refresh",
+    [
+      rateLimit({ policy: "refreshSession", key: "ip" }),
+      validateResource(refreshSessionSchema),
+    ],
+    asyncHandler(refreshSessionHandler)
+  );
+
+  app.get("/api/sessions", requireUser, asyncHandler(getUserSessionsHandler));
+
+  app.delete("/api/sessions", requireUser, asyncHandler(deleteSessionHandler));
+
+  /**
+   * @openapi
+   * '/api/audit-events':
+   *  get:
+   *     tags:
+   *     - Audit
+   *     summary: Search the audit trail (admin only)
+   *     parameters:
+   *      - name: cursor
+   *        in: query
+   *        description: The nextCursor returned by the previous page
+   *      - name: limit
+   *        in: query
+   *        description: Page size, between 1 and 100 (defaults to 20)
+   *      - name: actor
+   *        in: query
+   *        description: The id of the user that caused the events
+   *      - name: action
+   *        in: query
+   *        description: e.g. product.update or session.create
+   *      - name: targetType
+   *        in: query
+   *        description: e.g. product, session or user
+   *      - name: targetId
+   *        in: query
+   *      - name: from
+   *        in: query
+   *      - name: to
+   *        in: query
+   *     responses:
+   *      200:
+   *        description: Success
+   *        content:
+   *          application/json:
+   *            schema:
+   *              $ref: '#/components/schemas/AuditEventListResponse'
+   *      403:
+   *        description: Forbidden
+   */
+  app.get(
+    "/api/audit-events",
+    [requirePermission("audit:read"), validateResource(listAuditEventsSchema)],
+    asyncHandler(listAuditEventsHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/categories':
+   *  get:
+   *     tags:
+   *     - Categories
+   *     summary: List every category
+   *     description: Each category has the categoryId of its parent and of all its ancestors
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               $ref: '#/components/schema/categoryResponse'
+   *  post:
+   *     tags:
+   *     - Categories
+   *     summary: Create a category (admin only)
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schema/Category'
+   *     responses:
+   *       200:
+   *         description: Category created
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/categoryResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   */
+  app.get("/api/categories", asyncHandler(listCategoriesHandler));
+
+  app.post(
+    "/api/categories",
+    [
+      requirePermission("categories:manage"),
+      idempotency,
+      validateResource(createCategorySchema),
+    ],
+    asyncHandler(createCategoryHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/categories/{categoryId}':
+   *  get:
+   *     tags:
+   *     - Categories
+   *     summary: Get a single category
+   *     parameters:
+   *      - name: categoryId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/categoryResponse'
+   *       404:
+   *         description: Category not found
+   *  put:
+   *     tags:
+   *     - Categories
+   *     summary: Rename or move a category (admin only)
+   *     parameters:
+   *      - name: categoryId
+   *        in: path
+   *        required: true
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schema/Category'
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/categoryResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Category not found
+   *       409:
+   *         description: The category can't be moved into its own subtree
+   *  delete:
+   *     tags:
+   *     - Categories
+   *     summary: Delete a category without subcategories or products (admin only)
+   *     parameters:
+   *      - name: categoryId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Category deleted
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Category not found
+   *       409:
+   *         description: The category has subcategories or products
+   */
+  app.get(
+    "/api/categories/:categoryId",
+    validateResource(getCategorySchema),
+    asyncHandler(getCategoryHandler)
+  );
+
+  app.put(
+    "/api/categories/:categoryId",
+    [
+      requirePermission("categories:manage"),
+      validateResource(updateCategorySchema),
+    ],
+    asyncHandler(updateCategoryHandler)
+  );
+
+  app.delete(
+    "/api/categories/:categoryId",
+    [
+      requirePermission("categories:manage"),
+      validateResource(deleteCategorySchema),
+    ],
+    asyncHandler(deleteCategoryHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products':
+   *  get:
+   *     tags:
+   *     - Products
+   *     summary: List products
+   *     parameters:
+   *      - name: cursor
+   *        in: query
+   *        description: The nextCursor returned by the previous page
+   *      - name: limit
+   *        in: query
+   *        description: Page size, between 1 and 100 (defaults to 20)
+   *      - name: sort
+   *        in: query
+   *        description: One of createdAt, updatedAt, price or title
+   *      - name: order
+   *        in: query
+   *        description: asc or desc (defaults to desc)
+   *      - name: q
+   *        in: query
+   *        description: Case-insensitive search on the title
+   *      - name: user
+   *        in: query
+   *        description: The id of the user that owns the products
+   *      - name: category
+   *        in: query
+   *        description: A categoryId, includes the products of its subcategories
+   *      - name: tags
+   *        in: query
+   *        description: Comma separated, products must have all of them
+   *      - name: currency
+   *        in: query
+   *        description: ISO 4217 code
+   *      - name: minPrice
+   *        in: query
+   *        description: In minor units, e.g. cents
+   *      - name: maxPrice
+   *        in: query
+   *        description: In minor units, e.g. cents
+   *      - name: createdFrom
+   *        in: query
+   *      - name: createdTo
+   *        in: query
+   *      - name: updatedFrom
+   *        in: query
+   *      - name: updatedTo
+   *        in: query
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productListResponse'
+   *       400:
+   *         description: Bad request
+   *  post:
+   *     tags:
+   *     - Products
+   *     summary: Create a new product
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schema/Product'
+   *     responses:
+   *       200:
+   *         description: Product created
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productResponse'
+   *           example:
+   *             "user": "642a0de05f16e6dad68efdad"
+   *             "title": "Canon EOS 1500D DSLR Camera with 18-55mm Lens"
+   *             "description": "Designed for first-time DSLR owners who want impressive results straight out of the box, capture those magic moments no matter your level with the EOS 1500D. With easy to use automatic shooting modes, large 24.1 MP sensor, Canon Camera Connect app integration and built-in feature guide, EOS 1500D is always ready to go."
+   *             "price": 87999
+   *             "currency": "USD"
+   *             "image": "https://i.imgur.com/QlRphfQ.jpg"
+   *             "_id": "642a1cfcc1bec76d8a2e7ac2"
+   *             "productId": "product_xxqm8z3eho"
+   *             "createdAt": "2023-04-03T00:25:32.189Z"
+   *             "updatedAt": "2023-04-03T00:25:32.189Z"
+   *             "__v": 0
+   */
+  app.post(
+    "/api/products",
+    [
+      requireUser,
+      rateLimit({ policy: "writeProduct", key: "user" }),
+      idempotency,
+      validateResource(createProductSchema),
+    ],
+    asyncHandler(createProductHandler)
+  );
+
+  app.get(
+    "/api/products",
+    validateResource(listProductsSchema),
+    asyncHandler(listProductsHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/search':
+   *  get:
+   *     tags:
+   *     - Products
+   *     summary: Search products by title and description
+   *     description: Results are ranked by relevance, a match in the title counts for more than one in the description. Words are also matched by their beginning, so partial or slightly misspelled words still find products
+   *     parameters:
+   *      - name: q
+   *        in: query
+   *        required: true
+   *        description: The words to search for
+   *      - name: limit
+   *        in: query
+   *        description: Number of results, between 1 and 100 (defaults to 20)
+   *      - name: category
+   *        in: query
+   *        description: A categoryId, includes the products of its subcategories
+   *      - name: tags
+   *        in: query
+   *        description: Comma separated, products must have all of them
+   *      - name: currency
+   *        in: query
+   *        description: ISO 4217 code
+   *      - name: minPrice
+   *        in: query
+   *        description: In minor units, e.g. cents
+   *      - name: maxPrice
+   *        in: query
+   *        description: In minor units, e.g. cents
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productSearchResponse'
+   *       400:
+   *         description: Bad request
+   */
+  app.get(
+    "/api/products/search",
+    validateResource(searchProductsSchema),
+    asyncHandler(searchProductsHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/facets':
+   *  get:
+   *     tags:
+   *     - Products
+   *     summary: Count the products per category, tag and price range
+   *     description: Takes the same filters as the product list
+   *     parameters:
+   *      - name: q
+   *        in: query
+   *      - name: user
+   *        in: query
+   *      - name: category
+   *        in: query
+   *      - name: tags
+   *        in: query
+   *      - name: currency
+   *        in: query
+   *        description: ISO 4217 code
+   *      - name: minPrice
+   *        in: query
+   *        description: In minor units, e.g. cents
+   *      - name: maxPrice
+   *        in: query
+   *        description: In minor units, e.g. cents
+   *      - name: createdFrom
+   *        in: query
+   *      - name: createdTo
+   *        in: query
+   *      - name: updatedFrom
+   *        in: query
+   *      - name: updatedTo
+   *        in: query
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productFacetsResponse'
+   *       400:
+   *         description: Bad request
+   */
+  app.get(
+    "/api/products/facets",
+    validateResource(productFacetsSchema),
+    asyncHandler(getProductFacetsHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/trash':
+   *  get:
+   *     tags:
+   *     - Products
+   *     summary: List deleted products that haven't been purged yet
+   *     description: Users see their own products, moderators can see everyone's
+   *     parameters:
+   *      - name: cursor
+   *        in: query
+   *        description: The nextCursor returned by the previous page
+   *      - name: limit
+   *        in: query
+   *        description: Page size, between 1 and 100 (defaults to 20)
+   *      - name: sort
+   *        in: query
+   *        description: One of deletedAt, createdAt, updatedAt, price or title (defaults to deletedAt)
+   *      - name: order
+   *        in: query
+   *        description: asc or desc (defaults to desc)
+   *      - name: user
+   *        in: query
+   *        description: The id of the user that owns the products, moderators only
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productListResponse'
+   *       403:
+   *         description: Forbidden
+   */
+  app.get(
+    "/api/products/trash",
+    [requireUser, validateResource(listTrashedProductsSchema)],
+    asyncHandler(listTrashedProductsHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/{productId}/image':
+   *  put:
+   *     tags:
+   *     - Products
+   *     summary: Upload the image of a product
+   *     description: The image is resized into thumbnails and replaces the product's image. Files are removed when the product is purged from the trash
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *              - image
+   *             properties:
+   *               image:
+   *                 type: string
+   *                 format: binary
+   *     responses:
+   *       200:
+   *         description: Image uploaded
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found
+   *       413:
+   *         description: The image is too large
+   *       415:
+   *         description: The file is not a JPEG, PNG or WebP image
+   */
+  app.put(
+    "/api/products/:productId/image",
+    [
+      requireUser,
+      rateLimit({ policy: "writeProduct", key: "user" }),
+      validateResource(uploadProductImageSchema),
+      productOwnerOrModerator,
+      uploadImage,
+    ],
+    asyncHandler(uploadProductImageHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/{productId}/price-history':
+   *  get:
+   *     tags:
+   *     - Products
+   *     summary: List the prices a product has had, newest first
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *      - name: cursor
+   *        in: query
+   *        description: The nextCursor returned by the previous page
+   *      - name: limit
+   *        in: query
+   *        description: Page size, between 1 and 100 (defaults to 20)
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/priceHistoryResponse'
+   *       404:
+   *         description: Product not found
+   */
+  app.get(
+    "/api/products/:productId/price-history",
+    validateResource(getPriceHistorySchema),
+    asyncHandler(getPriceHistoryHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/{productId}/availability':
+   *  get:
+   *     tags:
+   *     - Inventory
+   *     summary: Get the stock of a product and how much of it is available
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/availabilityResponse'
+   *       404:
+   *         description: Product not found
+   */
+  app.get(
+    "/api/products/:productId/availability",
+    validateResource(getAvailabilitySchema),
+    asyncHandler(getAvailabilityHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/{productId}/stock':
+   *  patch:
+   *     tags:
+   *     - Inventory
+   *     summary: Set the stock of a product, or add to or remove from it
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             description: Either stock or adjustment
+   *             properties:
+   *               stock:
+   *                 type: integer
+   *                 example: 10
+   *               adjustment:
+   *                 type: integer
+   *                 example: -2
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/availabilityResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found
+   *       409:
+   *         description: The stock would be lower than the reserved quantity
+   */
+  app.patch(
+    "/api/products/:productId/stock",
+    [
+      requireUser,
+      rateLimit({ policy: "writeProduct", key: "user" }),
+      validateResource(adjustStockSchema),
+      productOwnerOrModerator,
+    ],
+    asyncHandler(adjustStockHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/{productId}/reservations':
+   *  post:
+   *     tags:
+   *     - Inventory
+   *     summary: Hold units of a product
+   *     description: The units are held until the reservation is released or expires. Only paying an order takes reserved units out of stock
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *              - quantity
+   *             properties:
+   *               quantity:
+   *                 type: integer
+   *                 example: 1
+   *     responses:
+   *       200:
+   *         description: Reservation created
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/reservationResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found
+   *       409:
+   *         description: Not enough stock available, or the user has too many units reserved
+   */
+  app.post(
+    "/api/products/:productId/reservations",
+    [
+      requireUser,
+      rateLimit({ policy: "reserveStock", key: "user" }),
+      idempotency,
+      validateResource(reserveStockSchema),
+    ],
+    asyncHandler(reserveStockHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/reservations/{reservationId}':
+   *  get:
+   *     tags:
+   *     - Inventory
+   *     summary: Get a reservation
+   *     parameters:
+   *      - name: reservationId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/reservationResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Reservation not found
+   * '/api/reservations/{reservationId}/release':
+   *  post:
+   *     tags:
+   *     - Inventory
+   *     summary: Give the reserved units back
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: reservationId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/reservationResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Reservation not found
+   *       409:
+   *         description: The reservation is no longer active
+   */
+  app.get(
+    "/api/reservations/:reservationId",
+    [
+      requireUser,
+      validateResource(getReservationSchema),
+      reservationOwnerOrModerator,
+    ],
+    asyncHandler(getReservationHandler)
+  );
+
+  app.post(
+    "/api/reservations/:reservationId/release",
+    [
+      requireUser,
+      idempotency,
+      validateResource(releaseReservationSchema),
+      reservationOwnerOrModerator,
+    ],
+    asyncHandler(releaseReservationHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/{productId}/restore':
+   *  post:
+   *     tags:
+   *     - Products
+   *     summary: Move a deleted product out of the trash
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Product restored
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found in the trash
+   */
+  app.post(
+    "/api/products/:productId/restore",
+    [
+      requireUser,
+      rateLimit({ policy: "writeProduct", key: "user" }),
+      idempotency,
+      validateResource(restoreProductSchema),
+      trashedProductOwnerOrModerator,
+    ],
+    asyncHandler(restoreProductHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/products/{productId}':
+   *  get:
+   *     tags:
+   *     - Products
+   *     summary: Get a single product by the productId
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *      - name: If-None-Match
+   *        in: header
+   *        description: The ETag of a cached copy of the product
+   *     responses:
+   *       200:
+   *         description: Success
+   *         headers:
+   *           ETag:
+   *             description: The version of the product
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productResponse'
+   *       304:
+   *         description: The cached copy is up to date
+   *       404:
+   *         description: Product not found
+   *  put:
+   *     tags:
+   *     - Products
+   *     summary: Update a single product
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *      - name: If-Match
+   *        in: header
+   *        description: Only update the product if its ETag still matches
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schema/Product'
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found
+   *       412:
+   *         description: The product has been modified since the ETag in If-Match
+   *  patch:
+   *     tags:
+   *     - Products
+   *     summary: Update some of the fields of a product
+   *     description: Send the changed fields as application/json or application/merge-patch+json, or a list of operations as application/json-patch+json
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *      - name: If-Match
+   *        in: header
+   *        description: Only update the product if its ETag still matches
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/merge-patch+json:
+   *           schema:
+   *             $ref: '#/components/schema/Product'
+   *         application/json-patch+json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               type: object
+   *               properties:
+   *                 op:
+   *                   type: string
+   *                   enum: [add, remove, replace, move, copy, test]
+   *                 path:
+   *                   type: string
+   *                   example: /price
+   *                 from:
+   *                   type: string
+   *                 value: {}
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/productResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found
+   *       409:
+   *         description: A JSON Patch test operation failed
+   *       412:
+   *         description: The product has been modified since the ETag in If-Match
+   *  delete:
+   *     tags:
+   *     - Products
+   *     summary: Move a single product to the trash
+   *     description: It can be restored until it is purged, after the configured retention period
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        description: The id of the product
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Product deleted
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found
+   */
+  app.put(
+    "/api/products/:productId",
+    [
+      requireUser,
+      rateLimit({ policy: "writeProduct", key: "user" }),
+      validateResource(updateProductSchema),
+      productOwnerOrModerator,
+    ],
+    asyncHandler(updateProductHandler)
+  );
+
+  app.patch(
+    "/api/products/:productId",
+    [
+      requireUser,
+      rateLimit({ policy: "writeProduct", key: "user" }),
+      validateProductPatchBody,
+      productOwnerOrModerator,
+    ],
+    asyncHandler(patchProductHandler)
+  );
+
+  app.get(
+    "/api/products/:productId",
+    validateResource(getProductSchema),
+    asyncHandler(getProductHandler)
+  );
+
+  app.delete(
+    "/api/products/:productId",
+    [
+      requireUser,
+      rateLimit({ policy: "writeProduct", key: "user" }),
+      validateResource(deleteProductSchema),
+      productOwnerOrModerator,
+    ],
+    asyncHandler(deleteProductHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/cart':
+   *  get:
+   *     tags:
+   *     - Cart
+   *     summary: Get the current user's cart
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/cartResponse'
+   *       403:
+   *         description: Forbidden
+   *  delete:
+   *     tags:
+   *     - Cart
+   *     summary: Remove everything from the cart
+   *     responses:
+   *       200:
+   *         description: Cart emptied
+   *       403:
+   *         description: Forbidden
+   */
+  app.get("/api/cart", requireUser, asyncHandler(getCartHandler));
+
+  app.delete("/api/cart", requireUser, asyncHandler(clearCartHandler));
+
+  /**
+   * @openapi
+   * '/api/cart/items/{productId}':
+   *  put:
+   *     tags:
+   *     - Cart
+   *     summary: Add a product to the cart, or change its quantity
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        required: true
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *              - quantity
+   *             properties:
+   *               quantity:
+   *                 type: integer
+   *                 example: 1
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/cartResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Product not found
+   *       409:
+   *         description: The cart is full
+   *  delete:
+   *     tags:
+   *     - Cart
+   *     summary: Remove a product from the cart
+   *     parameters:
+   *      - name: productId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/cartResponse'
+   *       403:
+   *         description: Forbidden
+   */
+  app.put(
+    "/api/cart/items/:productId",
+    [requireUser, validateResource(setCartItemSchema)],
+    asyncHandler(setCartItemHandler)
+  );
+
+  app.delete(
+    "/api/cart/items/:productId",
+    [requireUser, validateResource(removeCartItemSchema)],
+    asyncHandler(removeCartItemHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/orders':
+   *  get:
+   *     tags:
+   *     - Orders
+   *     summary: List the orders placed by the current user, newest first
+   *     parameters:
+   *      - name: cursor
+   *        in: query
+   *        description: The nextCursor returned by the previous page
+   *      - name: limit
+   *        in: query
+   *        description: Page size, between 1 and 100 (defaults to 20)
+   *      - name: status
+   *        in: query
+   *        description: One of pending, paid, fulfilled or cancelled
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/orderListResponse'
+   *       403:
+   *         description: Forbidden
+   *  post:
+   *     tags:
+   *     - Orders
+   *     summary: Place an order for the products in the cart
+   *     description: Prices are taken from the products and the units are reserved until the order is paid or cancelled. The cart is emptied
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *     responses:
+   *       200:
+   *         description: Order placed
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/orderResponse'
+   *       400:
+   *         description: The cart is empty
+   *       403:
+   *         description: Forbidden
+   *       409:
+   *         description: A product is no longer available, out of stock, or in another currency, or the user has too many units reserved
+   */
+  app.get(
+    "/api/orders",
+    [requireUser, validateResource(listOrdersSchema)],
+    asyncHandler(listOrdersHandler)
+  );
+
+  app.post(
+    "/api/orders",
+    [
+      requireUser,
+      rateLimit({ policy: "reserveStock", key: "user" }),
+      idempotency,
+    ],
+    asyncHandler(createOrderHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/seller/orders':
+   *  get:
+   *     tags:
+   *     - Orders
+   *     summary: List the orders that contain products sold by the current user
+   *     description: Orders only contain the user's own products, and the total for them
+   *     parameters:
+   *      - name: cursor
+   *        in: query
+   *        description: The nextCursor returned by the previous page
+   *      - name: limit
+   *        in: query
+   *        description: Page size, between 1 and 100 (defaults to 20)
+   *      - name: status
+   *        in: query
+   *        description: One of pending, paid, fulfilled or cancelled
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/orderListResponse'
+   *       403:
+   *         description: Forbidden
+   */
+  app.get(
+    "/api/seller/orders",
+    [requireUser, validateResource(listOrdersSchema)],
+    asyncHandler(listSellerOrdersHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/orders/{orderId}':
+   *  get:
+   *     tags:
+   *     - Orders
+   *     summary: Get an order
+   *     description: Sellers only see their own products
+   *     parameters:
+   *      - name: orderId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/orderResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Order not found
+   * '/api/orders/{orderId}/pay':
+   *  post:
+   *     tags:
+   *     - Orders
+   *     summary: Mark a pending order as paid (admin only)
+   *     description: For payments taken outside the payment provider. Takes the units out of stock, the order is cancelled when they are no longer available
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: orderId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/orderResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Order not found
+   *       409:
+   *         description: The order isn't pending, or its products are out of stock
+   * '/api/orders/{orderId}/fulfil':
+   *  post:
+   *     tags:
+   *     - Orders
+   *     summary: Mark a paid order as fulfilled
+   *     description: For the seller of every product of the order, or admins
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: orderId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/orderResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Order not found
+   *       409:
+   *         description: The order isn't paid
+   * '/api/orders/{orderId}/cancel':
+   *  post:
+   *     tags:
+   *     - Orders
+   *     summary: Cancel an order and give its units back
+   *     description: Buyers can cancel pending orders, admins can also cancel paid orders, which refunds their payment
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: orderId
+   *        in: path
+   *        required: true
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               reason:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/orderResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Order not found
+   *       409:
+   *         description: The order is already fulfilled or cancelled
+   */
+  app.get(
+    "/api/orders/:orderId",
+    [requireUser, validateResource(getOrderSchema), orderParticipant],
+    asyncHandler(getOrderHandler)
+  );
+
+  app.post(
+    "/api/orders/:orderId/pay",
+    [
+      requirePermission("orders:manage"),
+      idempotency,
+      validateResource(updateOrderStatusSchema),
+      orderParticipant,
+    ],
+    asyncHandler(payOrderHandler)
+  );
+
+  app.post(
+    "/api/orders/:orderId/fulfil",
+    [
+      requireUser,
+      idempotency,
+      validateResource(updateOrderStatusSchema),
+      orderParticipant,
+    ],
+    asyncHandler(fulfilOrderHandler)
+  );
+
+  app.post(
+    "/api/orders/:orderId/cancel",
+    [
+      requireUser,
+      idempotency,
+      validateResource(updateOrderStatusSchema),
+      orderParticipant,
+    ],
+    asyncHandler(cancelOrderHandler)
+  );
+
+  // Without a payment provider orders stay pending
+  if (paymentsEnabled()) {
+    /**
+     * @openapi
+     * '/api/orders/{orderId}/payment-intents':
+     *  post:
+     *     tags:
+     *     - Payments
+     *     summary: Start paying for a pending order
+     *     description: Returns the same intent again while it is unpaid and the order total hasn't changed. Not available when payments are disabled
+     *     parameters:
+     *      - $ref: '#/components/parameters/IdempotencyKey'
+     *      - name: orderId
+     *        in: path
+     *        required: true
+     *     responses:
+     *       200:
+     *         description: Success
+     *         content:
+     *          application/json:
+     *           schema:
+     *              $ref: '#/components/schema/paymentIntentResponse'
+     *       403:
+     *         description: Only the buyer can pay for an order
+     *       404:
+     *         description: Order not found
+     *       409:
+     *         description: The order isn't pending, or another payment for it is in progress
+     * '/api/payments/webhook':
+     *  post:
+     *     tags:
+     *     - Payments
+     *     summary: Receive payment events from the payment provider
+     *     description: The request must be signed by the provider, events that were already handled are ignored
+     *     responses:
+     *       200:
+     *         description: Success
+     *       400:
+     *         description: Invalid signature or event
+     */
+    app.post(
+      "/api/orders/:orderId/payment-intents",
+      [
+        requireUser,
+        idempotency,
+        validateResource(createPaymentIntentSchema),
+        orderParticipant,
+      ],
+      asyncHandler(createPaymentIntentHandler)
+    );
+
+    app.post("/api/payments/webhook", asyncHandler(paymentWebhookHandler));
+  }
+
+  if (fakePaymentsEnabled()) {
+    /**
+     * @openapi
+     * '/api/payments/fake/intents/{intentId}/events':
+     *  post:
+     *     tags:
+     *     - Payments
+     *     summary: Send a signed webhook from the fake payment provider
+     *     description: Only available outside production when the fake provider is configured, used by buyers to complete payments during development
+     *     parameters:
+     *      - name: intentId
+     *        in: path
+     *        required: true
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required:
+     *               - type
+     *             properties:
+     *               type:
+     *                 type: string
+     *                 enum: [payment.succeeded, payment.failed]
+     *     responses:
+     *       200:
+     *         description: Success
+     *       403:
+     *         description: Only the buyer can pay for an order
+     *       404:
+     *         description: Payment not found
+     */
+    app.post(
+      "/api/payments/fake/intents/:intentId/events",
+      [requireUser, validateResource(fakePaymentEventSchema)],
+      asyncHandler(fakePaymentEventHandler)
+    );
+  }
+
+  /**
+   * @openapi
+   * '/api/webhooks':
+   *  get:
+   *     tags:
+   *     - Webhooks
+   *     summary: List your webhooks
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               $ref: '#/components/schema/webhookResponse'
+   *  post:
+   *     tags:
+   *     - Webhooks
+   *     summary: Register a webhook for product events
+   *     description: Events are sent for every product as signed POST requests, the x-webhook-signature header is t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>"> using the returned secret. Failed deliveries are retried with exponential backoff
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schema/Webhook'
+   *     responses:
+   *       200:
+   *         description: Webhook created, the response is the only one that includes the secret
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/webhookResponse'
+   *       400:
+   *         description: Bad request
+   *       409:
+   *         description: You have too many webhooks
+   */
+  app.get("/api/webhooks", requireUser, asyncHandler(listWebhooksHandler));
+
+  app.post(
+    "/api/webhooks",
+    [requireUser, idempotency, validateResource(createWebhookSchema)],
+    asyncHandler(createWebhookHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/webhooks/{webhookId}':
+   *  get:
+   *     tags:
+   *     - Webhooks
+   *     summary: Get a single webhook
+   *     parameters:
+   *      - name: webhookId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/webhookResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Webhook not found
+   *  patch:
+   *     tags:
+   *     - Webhooks
+   *     summary: Change a webhook, or pause it by setting active to false
+   *     parameters:
+   *      - name: webhookId
+   *        in: path
+   *        required: true
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               url:
+   *                 type: string
+   *               events:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               description:
+   *                 type: string
+   *               active:
+   *                 type: boolean
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/webhookResponse'
+   *       400:
+   *         description: Bad request
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Webhook not found
+   *  delete:
+   *     tags:
+   *     - Webhooks
+   *     summary: Delete a webhook and its delivery log
+   *     parameters:
+   *      - name: webhookId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Webhook deleted
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Webhook not found
+   */
+  app.get(
+    "/api/webhooks/:webhookId",
+    [requireUser, validateResource(getWebhookSchema), webhookOwner],
+    asyncHandler(getWebhookHandler)
+  );
+
+  app.patch(
+    "/api/webhooks/:webhookId",
+    [requireUser, validateResource(updateWebhookSchema), webhookOwner],
+    asyncHandler(updateWebhookHandler)
+  );
+
+  app.delete(
+    "/api/webhooks/:webhookId",
+    [requireUser, validateResource(deleteWebhookSchema), webhookOwner],
+    asyncHandler(deleteWebhookHandler)
+  );
+
+  /**
+   * @openapi
+   * '/api/webhooks/{webhookId}/deliveries':
+   *  get:
+   *     tags:
+   *     - Webhooks
+   *     summary: List the deliveries of a webhook, newest first
+   *     parameters:
+   *      - name: webhookId
+   *        in: path
+   *        required: true
+   *      - name: status
+   *        in: query
+   *        schema:
+   *          type: string
+   *          enum: [pending, succeeded, failed]
+   *      - name: cursor
+   *        in: query
+   *        schema:
+   *          type: string
+   *      - name: limit
+   *        in: query
+   *        schema:
+   *          type: integer
+   *          default: 20
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/webhookDeliveryListResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Webhook not found
+   * '/api/webhooks/{webhookId}/deliveries/{deliveryId}/replay':
+   *  post:
+   *     tags:
+   *     - Webhooks
+   *     summary: Send a delivery's event again
+   *     description: Queued as a new delivery with the same event id and body
+   *     parameters:
+   *      - $ref: '#/components/parameters/IdempotencyKey'
+   *      - name: webhookId
+   *        in: path
+   *        required: true
+   *      - name: deliveryId
+   *        in: path
+   *        required: true
+   *     responses:
+   *       200:
+   *         description: Success
+   *         content:
+   *          application/json:
+   *           schema:
+   *              $ref: '#/components/schema/webhookDeliveryResponse'
+   *       403:
+   *         description: Forbidden
+   *       404:
+   *         description: Webhook or delivery not found
+   *       409:
+   *         description: The webhook is inactive
+   */
+  app.get(
+    "/api/webhooks/:webhookId/deliveries",
+    [requireUser, validateResource(listWebhookDeliveriesSchema), webhookOwner],
+    asyncHandler(listWebhookDeliveriesHandler)
+  );
+
+  app.post(
+    "/api/webhooks/:webhookId/deliveries/:deliveryId/replay",
+    [
+      requireUser,
+      idempotency,
+      validateResource(replayWebhookDeliverySchema),
+      webhookOwner,
+    ],
+    asyncHandler(replayWebhookDeliveryHandler)
   );
 }
 
@@ -0,0 +1,68 @@
+import { object, string, date, preprocess, TypeOf } from "zod";
+import { objectId, paginationQuery, toDate } from "./pagination.schema";
+
+/**
+ * @openapi
+ * components:
+ *  schemas:
+ *    AuditEvent:
+ *      type: object
+ *      properties:
+ *        _id:
+ *          type: string
+ *        actor:
+ *          type: string
+ *        action:
+ *          type: string
+ *          example: product.update
+ *        target:
+ *          type: object
+ *          properties:
+ *            type:
+ *              type: string
+ *              example: product
+ *            id:
+ *              type: string
+ *              example: product_xxqm8z3eho
+ *        changes:
+ *          type: object
+ *          additionalProperties:
+ *            type: object
+ *            properties:
+ *              before: {}
+ *              after: {}
+ *        ip:
+ *          type: string
+ *        userAgent:
+ *          type: string
+ *        requestId:
+ *          type: string
+ *        createdAt:
+ *          type: string
+ *    AuditEventListResponse:
+ *      type: object
+ *      properties:
+ *        data:
+ *          type: array
+ *          items:
+ *            $ref: '#/components/schemas/AuditEvent'
+ *        nextCursor:
+ *          type: string
+ *          nullable: true
+ *        total:
+ *          type: number
+ */
+
+export const listAuditEventsSchema = object({
+  query: object({
+    ...paginationQuery,
+    actor: objectId("actor").optional(),
+    action: string().optional(),
+    targetType: string().optional(),
+    targetId: string().optional(),
+    from: preprocess(toDate, date()).optional(),
+    to: preprocess(toDate, date()).optional(),
+  }),
+});
+
+export type ListAuditEventsInput = TypeOf<typeof listAuditEventsSchema>;
@@ -0,0 +1,48 @@
+import { object, number, string, TypeOf } from "zod";
+
+/**
+ * @openapi
+ * components:
+ *   schema:
+ *     cartResponse:
+ *       type: object
+ *       properties:
+ *         user:
+ *           type: string
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               product:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ */
+
+const params = {
+  params: object({
+    productId: string({
+      required_error: "productId is required",
+    }),
+  }),
+};
+
+export const setCartItemSchema = object({
+  body: object({
+    quantity: number({
+      required_error: "quantity is required",
+    })
+      .int("quantity must be an integer")
+      .min(1, "quantity must be at least 1")
+      .max(100, "quantity must be at most 100"),
+  }),
+  ...params,
+});
+
+export const removeCartItemSchema = object({
+  ...params,
+});
+
+export type SetCartItemInput = TypeOf<typeof setCartItemSchema>;
+export type RemoveCartItemInput = TypeOf<typeof removeCartItemSchema>;
@@ -0,0 +1,83 @@
+import { object, string, TypeOf } from "zod";
+
+/**
+ * @openapi
+ * components:
+ *   schema:
+ *     Category:
+ *       type: object
+ *       required:
+ *        - name
+ *       properties:
+ *         name:
+ *           type: string
+ *           default: "Cameras"
+ *         description:
+ *           type: string
+ *         parent:
+ *           type: string
+ *           nullable: true
+ *           description: The categoryId of the parent category
+ *     categoryResponse:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         categoryId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         parent:
+ *           type: string
+ *           nullable: true
+ *         ancestors:
+ *           type: array
+ *           items:
+ *             type: string
+ *         createdAt:
+ *           type: string
+ *         updatedAt:
+ *           type: string
+ */
+
+const payload = {
+  body: object({
+    name: string({
+      required_error: "Name is required",
+    }).min(1, "Name is required"),
+    description: string().optional(),
+    parent: string().nullable().default(null),
+  }),
+};
+
+const params = {
+  params: object({
+    categoryId: string({
+      required_error: "categoryId is required",
+    }),
+  }),
+};
+
+export const createCategorySchema = object({
+  ...payload,
+});
+
+export const updateCategorySchema = object({
+  ...payload,
+  ...params,
+});
+
+export const getCategorySchema = object({
+  ...params,
+});
+
+export const deleteCategorySchema = object({
+  ...params,
+});
+
+export type CreateCategoryInput = TypeOf<typeof createCategorySchema>;
+export type UpdateCategoryInput = TypeOf<typeof updateCategorySchema>;
+export type ReadCategoryInput = TypeOf<typeof getCategorySchema>;
+export type DeleteCategoryInput = TypeOf<typeof deleteCategorySchema>;
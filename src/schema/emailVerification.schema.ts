@@ -0,0 +1,43 @@
+import { object, string, TypeOf } from "zod";
+
+/**
+ * @openapi
+ * components:
+ *  schemas:
+ *    ResendVerificationEmailInput:
+ *      type: object
+ *      required:
+ *        - email
+ *      properties:
+ *        email:
+ *          type: string
+ *          default: jane.doe@example.com
+ *    VerifyEmailInput:
+ *      type: object
+ *      required:
+ *        - token
+ *      properties:
+ *        token:
+ *          type: string
+ */
+
+export const resendVerificationEmailSchema = object({
+  body: object({
+    email: string({
+      required_error: "Email is required",
+    }).email("Not a valid email"),
+  }),
+});
+
+export const verifyEmailSchema = object({
+  body: object({
+    token: string({
+      required_error: "Token is required",
+    }),
+  }),
+});
+
+export type ResendVerificationEmailInput = TypeOf<
+  typeof resendVerificationEmailSchema
+>;
+export type VerifyEmailInput = TypeOf<typeof verifyEmailSchema>;
@@ -0,0 +1,102 @@
+import { object, string, enum as zodEnum, TypeOf } from "zod";
+import { orderStatuses } from "../models/order.model";
+import { paginationQuery } from "./pagination.schema";
+
+/**
+ * @openapi
+ * components:
+ *   schema:
+ *     orderResponse:
+ *       type: object
+ *       properties:
+ *         orderId:
+ *           type: string
+ *         user:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, paid, fulfilled, cancelled]
+ *         items:
+ *           type: array
+ *           description: The products as they were when the order was placed
+ *           items:
+ *             type: object
+ *             properties:
+ *               product:
+ *                 type: string
+ *               seller:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               price:
+ *                 type: integer
+ *               quantity:
+ *                 type: integer
+ *               reservation:
+ *                 type: string
+ *         currency:
+ *           type: string
+ *         total:
+ *           type: integer
+ *         statusHistory:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *               changedBy:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *               at:
+ *                 type: string
+ *         createdAt:
+ *           type: string
+ *         updatedAt:
+ *           type: string
+ *     orderListResponse:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schema/orderResponse'
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *         total:
+ *           type: number
+ */
+
+const params = {
+  params: object({
+    orderId: string({
+      required_error: "orderId is required",
+    }),
+  }),
+};
+
+export const listOrdersSchema = object({
+  query: object({
+    ...paginationQuery,
+    status: zodEnum(orderStatuses).optional(),
+  }),
+});
+
+export const getOrderSchema = object({
+  ...params,
+});
+
+export const updateOrderStatusSchema = object({
+  body: object({
+    reason: string().max(500, "reason should be at most 500 characters long"),
+  })
+    .partial()
+    .default({}),
+  ...params,
+});
+
+export type ListOrdersInput = TypeOf<typeof listOrdersSchema>;
+export type GetOrderInput = TypeOf<typeof getOrderSchema>;
+export type UpdateOrderStatusInput = TypeOf<typeof updateOrderStatusSchema>;
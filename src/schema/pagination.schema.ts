@@ -0,0 +1,40 @@
+import { number, string, preprocess } from "zod";
+import { decodeCursor } from "../utils/pagination";
+
+// Query string values are always strings, these turn them into the type the
+// schema expects before validating
+export const toNumber = (value: unknown) =>
+  typeof value === "string" && value !== "" ? Number(value) : value;
+
+export const toDate = (value: unknown) =>
+  typeof value === "string" && value !== "" ? new Date(value) : value;
+
+export const toBoolean = (value: unknown) =>
+  value === "true" ? true : value === "false" ? false : value;
+
+// Accepts a comma separated list, or the parameter repeated
+export const toList = (value: unknown) =>
+  typeof value === "string" || Array.isArray(value)
+    ? String(value)
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
+
+export const objectId = (name: string) =>
+  string({
+    required_error: `${name} is required`,
+  }).regex(/^[0-9a-f]{24}$/, `${name} must be a valid id`);
+
+export const paginationQuery = {
+  cursor: string()
+    .refine((value) => decodeCursor(value) !== null, "Invalid cursor")
+    .optional(),
+  limit: preprocess(
+    toNumber,
+    number()
+      .int("limit must be an integer")
+      .min(1, "limit must be at least 1")
+      .max(100, "limit must be at most 100")
+  ).default(20),
+};
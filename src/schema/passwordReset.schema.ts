@@ -0,0 +1,60 @@
+import { object, string, TypeOf } from "zod";
+
+/**
+ * @openapi
+ * components:
+ *  schemas:
+ *    RequestPasswordResetInput:
+ *      type: object
+ *      required:
+ *        - email
+ *      properties:
+ *        email:
+ *          type: string
+ *          default: jane.doe@example.com
+ *    ResetPasswordInput:
+ *      type: object
+ *      required:
+ *        - token
+ *        - password
+ *        - passwordConfirmation
+ *      properties:
+ *        token:
+ *          type: string
+ *        password:
+ *          type: string
+ *          default: newStringPassword123
+ *        passwordConfirmation:
+ *          type: string
+ *          default: newStringPassword123
+ */
+
+export const requestPasswordResetSchema = object({
+  body: object({
+    email: string({
+      required_error: "Email is required",
+    }).email("Not a valid email"),
+  }),
+});
+
+export const resetPasswordSchema = object({
+  body: object({
+    token: string({
+      required_error: "Token is required",
+    }),
+    password: string({
+      required_error: "Password is required",
+    }).min(6, "Password too short - should be 6 chars minimum"),
+    passwordConfirmation: string({
+      required_error: "passwordConfirmation is required",
+    }),
+  }).refine((data) => data.password === data.passwordConfirmation, {
+    message: "Passwords do not match",
+    path: ["passwordConfirmation"],
+  }),
+});
+
+export type RequestPasswordResetInput = TypeOf<
+  typeof requestPasswordResetSchema
+>;
+export type ResetPasswordInput = TypeOf<typeof resetPasswordSchema>;
@@ -0,0 +1,48 @@
+import { object, string, enum as zodEnum, TypeOf } from "zod";
+
+/**
+ * @openapi
+ * components:
+ *   schema:
+ *     paymentIntentResponse:
+ *       type: object
+ *       properties:
+ *         order:
+ *           type: string
+ *         provider:
+ *           type: string
+ *         intentId:
+ *           type: string
+ *         clientSecret:
+ *           type: string
+ *           description: Completes the payment with the provider
+ *         amount:
+ *           type: integer
+ *         currency:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, succeeded, failed, refunded]
+ */
+
+export const createPaymentIntentSchema = object({
+  params: object({
+    orderId: string({
+      required_error: "orderId is required",
+    }),
+  }),
+});
+
+export const fakePaymentEventSchema = object({
+  params: object({
+    intentId: string({
+      required_error: "intentId is required",
+    }),
+  }),
+  body: object({
+    type: zodEnum(["payment.succeeded", "payment.failed"]),
+  }),
+});
+
+export type CreatePaymentIntentInput = TypeOf<typeof createPaymentIntentSchema>;
+export type FakePaymentEventInput = TypeOf<typeof fakePaymentEventSchema>;
@@ -1,4 +1,23 @@
-import { object, number, string, TypeOf } from "zod";
+import {
+  object,
+  number,
+  string,
+  date,
+  preprocess,
+  array,
+  unknown,
+  enum as zodEnum,
+  TypeOf,
+} from "zod";
+import { uniq } from "lodash";
+import {
+  objectId,
+  paginationQuery,
+  toDate,
+  toList,
+  toNumber,
+} from "./pagination.schema";
+import { isCurrencyCode } from "../utils/money";
 
 /**
  * @openapi
@@ -10,7 +29,7 @@ import { object, number, string, TypeOf } from "zod";
  *        - title
  *        - description
  *        - price
- *        - image
+ *        - currency
  *       properties:
  *         title:
  *           type: string
@@ -19,11 +38,24 @@ import { object, number, string, TypeOf } from "zod";
  *           type: string
  *           default: "Designed for first-time DSLR owners who want impressive results straight out of the box, capture those magic moments no matter your level with the EOS 1500D. With easy to use automatic shooting modes, large 24.1 MP sensor, Canon Camera Connect app integration and built-in feature guide, EOS 1500D is always ready to go."
  *         price:
- *           type: number
- *           default: 879.99
+ *           type: integer
+ *           description: In minor units of the currency, e.g. cents
+ *           default: 87999
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 code
+ *           default: "USD"
  *         image:
  *           type: string
  *           default: "https://i.imgur.com/QlRphfQ.jpg"
+ *         category:
+ *           type: string
+ *           description: The categoryId of the category
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *           default: ["camera", "dslr"]
  *     productResponse:
  *       type: object
  *       properties:
@@ -36,17 +68,157 @@ import { object, number, string, TypeOf } from "zod";
  *         description:
  *           type: string
  *         price:
- *           type: number
+ *           type: integer
+ *         currency:
+ *           type: string
  *         image:
  *           type: string
+ *         imageFiles:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: original, or the name of a thumbnail size
+ *               url:
+ *                 type: string
+ *               contentType:
+ *                 type: string
+ *               width:
+ *                 type: number
+ *               height:
+ *                 type: number
+ *               size:
+ *                 type: number
+ *         category:
+ *           type: string
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         stock:
+ *           type: integer
+ *         reserved:
+ *           type: integer
  *         productId:
  *           type: string
  *         createdAt:
  *           type: string
  *         updatedAt:
  *           type: string
+ *         deletedAt:
+ *           type: string
+ *           nullable: true
  *         __v:
  *           type: number
+ *     availabilityResponse:
+ *       type: object
+ *       properties:
+ *         productId:
+ *           type: string
+ *         stock:
+ *           type: integer
+ *         reserved:
+ *           type: integer
+ *         available:
+ *           type: integer
+ *     priceHistoryResponse:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           description: Newest first
+ *           items:
+ *             type: object
+ *             properties:
+ *               product:
+ *                 type: string
+ *               price:
+ *                 type: integer
+ *               currency:
+ *                 type: string
+ *               createdAt:
+ *                 type: string
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *         total:
+ *           type: number
+ *     productListResponse:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schema/productResponse'
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *         total:
+ *           type: number
+ *     productSearchResponse:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schema/productResponse'
+ *               - type: object
+ *                 properties:
+ *                   score:
+ *                     type: number
+ *                     description: Relevance from the text index, missing for prefix matches
+ *                   highlights:
+ *                     type: object
+ *                     description: HTML with the matching words in <mark>, null when no word starts with a searched prefix
+ *                     properties:
+ *                       title:
+ *                         type: string
+ *                         nullable: true
+ *                       description:
+ *                         type: string
+ *                         nullable: true
+ *     productFacetsResponse:
+ *       type: object
+ *       properties:
+ *         categories:
+ *           type: array
+ *           description: Counts include the products of subcategories
+ *           items:
+ *             type: object
+ *             properties:
+ *               categoryId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               parent:
+ *                 type: string
+ *                 nullable: true
+ *               count:
+ *                 type: number
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               tag:
+ *                 type: string
+ *               count:
+ *                 type: number
+ *         prices:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               min:
+ *                 type: integer
+ *               max:
+ *                 type: integer
+ *                 nullable: true
+ *               count:
+ *                 type: number
  *
  */
 
@@ -58,15 +230,37 @@ const payload = {
     description: string({
       required_error: "Description is required",
     }).min(120, "Description should be at least 120 characters long"),
+    // Minor units avoid floating point rounding, 879.99 USD is sent as 87999
     price: number({
       required_error: "Price is required",
-    }),
-    image: string({
-      required_error: "Image is required",
-    }),
+    })
+      .int("Price must be in minor units of the currency, e.g. cents")
+      .min(0, "Price can't be negative"),
+    currency: currency("Currency is required"),
+    // Optional as the image can be uploaded after the product is created
+    image: string().optional(),
+    category: string().optional(),
+    tags: array(
+      string()
+        .min(1, "Tags can't be empty")
+        .max(50, "Tags should be at most 50 characters long")
+    )
+      .max(20, "A product can have at most 20 tags")
+      .transform((tags) => uniq(tags.map((tag) => tag.toLowerCase())))
+      .optional(),
   }),
 };
 
+// ISO 4217 codes, lowercase codes are accepted
+function currency(requiredError: string) {
+  return preprocess(
+    (value) => (typeof value === "string" ? value.toUpperCase() : value),
+    string({
+      required_error: requiredError,
+    }).refine(isCurrencyCode, "Currency must be an ISO 4217 code")
+  );
+}
+
 const params = {
   params: object({
     productId: string({
@@ -75,6 +269,53 @@ const params = {
   }),
 };
 
+export const productSortKeys = [
+  "createdAt",
+  "updatedAt",
+  "price",
+  "title",
+] as const;
+
+// Shared by the list and the facets
+const filters = {
+  q: string().optional(),
+  user: objectId("user").optional(),
+  // Includes the products of its subcategories
+  category: string().optional(),
+  // Products must have all of them
+  tags: preprocess(
+    toList,
+    array(string()).transform((tags) => tags.map((tag) => tag.toLowerCase()))
+  ).optional(),
+  currency: currency("currency is required").optional(),
+  // In minor units, compared regardless of the currency unless one is given
+  minPrice: preprocess(toNumber, number().int().min(0)).optional(),
+  maxPrice: preprocess(toNumber, number().int().min(0)).optional(),
+  createdFrom: preprocess(toDate, date()).optional(),
+  createdTo: preprocess(toDate, date()).optional(),
+  updatedFrom: preprocess(toDate, date()).optional(),
+  updatedTo: preprocess(toDate, date()).optional(),
+};
+
+const validPriceRange = (data: { minPrice?: number; maxPrice?: number }) =>
+  data.minPrice === undefined ||
+  data.maxPrice === undefined ||
+  data.minPrice <= data.maxPrice;
+
+const invalidPriceRange = {
+  message: "minPrice must not be greater than maxPrice",
+  path: ["minPrice"],
+};
+
+const query = {
+  query: object({
+    ...paginationQuery,
+    sort: zodEnum(productSortKeys).default("createdAt"),
+    order: zodEnum(["asc", "desc"]).default("desc"),
+    ...filters,
+  }).refine(validPriceRange, invalidPriceRange),
+};
+
 export const createProductSchema = object({
   ...payload,
 });
@@ -84,6 +325,112 @@ export const updateProductSchema = object({
   ...params,
 });
 
+// Fields that can be changed by clients, everything else is set by the server
+export const editableProductFields = Object.keys(payload.body.shape);
+
+export const patchProductSchema = object({
+  // Also a valid JSON Merge Patch (RFC 7396), as all the fields are required
+  // and null can't be used to remove one
+  body: payload.body
+    .partial()
+    .strict()
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field is required",
+    }),
+  ...params,
+});
+
+export const jsonPatchProductSchema = object({
+  body: array(
+    object({
+      op: zodEnum(["add", "remove", "replace", "move", "copy", "test"]),
+      path: string({
+        required_error: "path is required",
+      }),
+      from: string().optional(),
+      value: unknown(),
+    })
+  ).min(1, "At least one operation is required"),
+  ...params,
+});
+
+export const searchProductsSchema = object({
+  query: object({
+    q: string({
+      required_error: "q is required",
+    })
+      .min(1, "q is required")
+      .max(200, "q should be at most 200 characters long"),
+    limit: paginationQuery.limit,
+    category: filters.category,
+    tags: filters.tags,
+    currency: filters.currency,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+  }).refine(validPriceRange, invalidPriceRange),
+});
+
+export const adjustStockSchema = object({
+  // Either the new stock, or how much to add to (or remove from) it
+  body: object({
+    stock: number()
+      .int("stock must be an integer")
+      .min(0, "stock can't be negative")
+      .optional(),
+    adjustment: number().int("adjustment must be an integer").optional(),
+  })
+    .strict()
+    .refine(
+      (data) => (data.stock === undefined) !== (data.adjustment === undefined),
+      { message: "Either stock or adjustment is required" }
+    ),
+  ...params,
+});
+
+export const getAvailabilitySchema = object({
+  ...params,
+});
+
+export const reserveStockSchema = object({
+  body: object({
+    quantity: number({
+      required_error: "quantity is required",
+    })
+      .int("quantity must be an integer")
+      .min(1, "quantity must be at least 1"),
+  }),
+  ...params,
+});
+
+export const getPriceHistorySchema = object({
+  ...params,
+  query: object({
+    ...paginationQuery,
+  }),
+});
+
+export const productFacetsSchema = object({
+  query: object(filters).refine(validPriceRange, invalidPriceRange),
+});
+
+export const listTrashedProductsSchema = object({
+  query: object({
+    ...paginationQuery,
+    sort: zodEnum(["deletedAt", ...productSortKeys]).default("deletedAt"),
+    order: zodEnum(["asc", "desc"]).default("desc"),
+    // Only used by moderators, everyone else only sees their own products
+    user: objectId("user").optional(),
+  }),
+});
+
+export const uploadProductImageSchema = object({
+  ...params,
+});
+
+export const restoreProductSchema = object({
+  ...params,
+});
+
 export const deleteProductSchema = object({
   ...params,
 });
@@ -92,7 +439,23 @@ export const getProductSchema = object({
   ...params,
 });
 
+export const listProductsSchema = object({
+  ...query,
+});
+
 export type CreateProductInput = TypeOf<typeof createProductSchema>;
 export type UpdateProductInput = TypeOf<typeof updateProductSchema>;
+export type PatchProductInput = TypeOf<typeof patchProductSchema>;
+export type JsonPatchProductInput = TypeOf<typeof jsonPatchProductSchema>;
 export type ReadProductInput = TypeOf<typeof getProductSchema>;
 export type DeleteProductInput = TypeOf<typeof deleteProductSchema>;
+export type ListProductsInput = TypeOf<typeof listProductsSchema>;
+export type SearchProductsInput = TypeOf<typeof searchProductsSchema>;
+export type AdjustStockInput = TypeOf<typeof adjustStockSchema>;
+export type GetAvailabilityInput = TypeOf<typeof getAvailabilitySchema>;
+export type ReserveStockInput = TypeOf<typeof reserveStockSchema>;
+export type GetPriceHistoryInput = TypeOf<typeof getPriceHistorySchema>;
+export type ProductFacetsInput = TypeOf<typeof productFacetsSchema>;
+export type ListTrashedProductsInput = TypeOf<typeof listTrashedProductsSchema>;
+export type UploadProductImageInput = TypeOf<typeof uploadProductImageSchema>;
+export type RestoreProductInput = TypeOf<typeof restoreProductSchema>;
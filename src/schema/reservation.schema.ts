@@ -0,0 +1,46 @@
+import { object, string, TypeOf } from "zod";
+
+/**
+ * @openapi
+ * components:
+ *   schema:
+ *     reservationResponse:
+ *       type: object
+ *       properties:
+ *         reservationId:
+ *           type: string
+ *         product:
+ *           type: string
+ *         user:
+ *           type: string
+ *         quantity:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [active, released, committed, expired]
+ *         expiresAt:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *         updatedAt:
+ *           type: string
+ */
+
+const params = {
+  params: object({
+    reservationId: string({
+      required_error: "reservationId is required",
+    }),
+  }),
+};
+
+export const getReservationSchema = object({
+  ...params,
+});
+
+export const releaseReservationSchema = object({
+  ...params,
+});
+
+export type GetReservationInput = TypeOf<typeof getReservationSchema>;
+export type ReleaseReservationInput = TypeOf<typeof releaseReservationSchema>;
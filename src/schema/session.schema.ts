@@ -1,4 +1,4 @@
-import { object, string } from "zod";
+import { object, string, TypeOf } from "zod";
 
 /**
  * @openapi
@@ -51,6 +51,12 @@ import { object, string } from "zod";
  *           type: string
  *         refreshToken:
  *           type: string
+ *     RefreshSessionInput:
+ *       type: object
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *           description: Can be omitted when the refreshToken cookie is sent
  */
 
 export const createSessionSchema = object({
@@ -63,3 +69,11 @@ export const createSessionSchema = object({
     }),
   }),
 });
+
+export const refreshSessionSchema = object({
+  body: object({
+    refreshToken: string().optional(),
+  }),
+});
+
+export type RefreshSessionInput = TypeOf<typeof refreshSessionSchema>;
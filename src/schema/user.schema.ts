@@ -1,4 +1,13 @@
-import { object, string, TypeOf } from "zod";
+import {
+  object,
+  string,
+  boolean,
+  preprocess,
+  enum as zodEnum,
+  TypeOf,
+} from "zod";
+import { roles } from "../utils/permissions";
+import { objectId, paginationQuery, toBoolean } from "./pagination.schema";
 
 /**
  * @openapi
@@ -31,12 +40,63 @@ import { object, string, TypeOf } from "zod";
  *          type: string
  *        name:
  *          type: string
+ *        role:
+ *          type: string
+ *          enum: [user, admin]
+ *        disabled:
+ *          type: boolean
+ *        verified:
+ *          type: boolean
  *        _id:
  *          type: string
  *        createdAt:
  *          type: string
  *        updatedAt:
  *          type: string
+ *    UpdateMeInput:
+ *      type: object
+ *      properties:
+ *        email:
+ *          type: string
+ *          default: jane.doe@example.com
+ *        name:
+ *          type: string
+ *          default: Jane Doe
+ *    ChangePasswordInput:
+ *      type: object
+ *      required:
+ *        - currentPassword
+ *        - password
+ *        - passwordConfirmation
+ *      properties:
+ *        currentPassword:
+ *          type: string
+ *          default: stringPassword123
+ *        password:
+ *          type: string
+ *          default: newStringPassword123
+ *        passwordConfirmation:
+ *          type: string
+ *          default: newStringPassword123
+ *    UserListResponse:
+ *      type: object
+ *      properties:
+ *        data:
+ *          type: array
+ *          items:
+ *            $ref: '#/components/schemas/CreateUserResponse'
+ *        nextCursor:
+ *          type: string
+ *          nullable: true
+ *        total:
+ *          type: number
+ *    UserWithSessionsResponse:
+ *      allOf:
+ *        - $ref: '#/components/schemas/CreateUserResponse'
+ *        - type: object
+ *          properties:
+ *            sessions:
+ *              $ref: '#/components/schemas/GetSessionResponse'
  */
 
 export const createUserSchema = object({
@@ -63,3 +123,61 @@ export type CreateUserInput = Omit<
   TypeOf<typeof createUserSchema>,
   "body.passwordConfirmation"
 >;
+
+export const updateMeSchema = object({
+  body: object({
+    name: string().min(1, "Name cannot be empty").optional(),
+    email: string().email("Not a valid email").optional(),
+  }).refine((data) => data.name !== undefined || data.email !== undefined, {
+    message: "Either name or email is required",
+  }),
+});
+
+export const changePasswordSchema = object({
+  body: object({
+    currentPassword: string({
+      required_error: "currentPassword is required",
+    }),
+    password: string({
+      required_error: "Password is required",
+    }).min(6, "Password too short - should be 6 chars minimum"),
+    passwordConfirmation: string({
+      required_error: "passwordConfirmation is required",
+    }),
+  }).refine((data) => data.password === data.passwordConfirmation, {
+    message: "Passwords do not match",
+    path: ["passwordConfirmation"],
+  }),
+});
+
+const params = {
+  params: object({
+    userId: objectId("userId"),
+  }),
+};
+
+export const listUsersSchema = object({
+  query: object({
+    ...paginationQuery,
+    q: string().optional(),
+    role: zodEnum(roles).optional(),
+    disabled: preprocess(toBoolean, boolean()).optional(),
+  }),
+});
+
+export const getUserSchema = object({
+  ...params,
+});
+
+export const disableUserSchema = object({
+  ...params,
+});
+
+export const deleteUserSchema = object({
+  ...params,
+});
+
+export type ListUsersInput = TypeOf<typeof listUsersSchema>;
+export type GetUserInput = TypeOf<typeof getUserSchema>;
+export type UpdateMeInput = TypeOf<typeof updateMeSchema>;
+export type ChangePasswordInput = TypeOf<typeof changePasswordSchema>;
@@ -0,0 +1,177 @@
+import { object, string, array, boolean, enum as zodEnum, TypeOf } from "zod";
+import { uniq } from "lodash";
+import { webhookEvents } from "../models/webhook.model";
+import { webhookDeliveryStatuses } from "../models/webhookDelivery.model";
+import { paginationQuery } from "./pagination.schema";
+
+/**
+ * @openapi
+ * components:
+ *   schema:
+ *     Webhook:
+ *       type: object
+ *       required:
+ *        - url
+ *        - events
+ *       properties:
+ *         url:
+ *           type: string
+ *           default: "https://example.com/webhooks"
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [product.created, product.updated, product.deleted]
+ *         description:
+ *           type: string
+ *     webhookResponse:
+ *       type: object
+ *       properties:
+ *         webhookId:
+ *           type: string
+ *         user:
+ *           type: string
+ *         url:
+ *           type: string
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description:
+ *           type: string
+ *         active:
+ *           type: boolean
+ *         secret:
+ *           type: string
+ *           description: Only returned when the webhook is created
+ *         createdAt:
+ *           type: string
+ *         updatedAt:
+ *           type: string
+ *     webhookDeliveryResponse:
+ *       type: object
+ *       properties:
+ *         deliveryId:
+ *           type: string
+ *         webhook:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *         event:
+ *           type: string
+ *         payload:
+ *           type: string
+ *           description: The JSON body that was sent
+ *         replayOf:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *         attempts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               attemptedAt:
+ *                 type: string
+ *               responseStatus:
+ *                 type: integer
+ *               error:
+ *                 type: string
+ *               duration:
+ *                 type: integer
+ *         nextAttemptAt:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *         updatedAt:
+ *           type: string
+ *     webhookDeliveryListResponse:
+ *       type: object
+ *       properties:
+ *         data:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schema/webhookDeliveryResponse'
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *         total:
+ *           type: number
+ */
+
+const fields = {
+  url: string({
+    required_error: "URL is required",
+  })
+    .url("URL must be valid")
+    .regex(/^https?:\/\//i, "URL must use http or https"),
+  events: array(zodEnum(webhookEvents), {
+    required_error: "Events are required",
+  })
+    .min(1, "Subscribe to at least one event")
+    .transform((events) => uniq(events)),
+  description: string()
+    .max(500, "Description should be at most 500 characters long")
+    .optional(),
+};
+
+const params = {
+  params: object({
+    webhookId: string({
+      required_error: "webhookId is required",
+    }),
+  }),
+};
+
+export const createWebhookSchema = object({
+  body: object(fields),
+});
+
+export const updateWebhookSchema = object({
+  ...params,
+  body: object({
+    url: fields.url.optional(),
+    events: fields.events.optional(),
+    description: fields.description,
+    active: boolean().optional(),
+  }),
+});
+
+export const getWebhookSchema = object({
+  ...params,
+});
+
+export const deleteWebhookSchema = object({
+  ...params,
+});
+
+export const listWebhookDeliveriesSchema = object({
+  ...params,
+  query: object({
+    ...paginationQuery,
+    status: zodEnum(webhookDeliveryStatuses).optional(),
+  }),
+});
+
+export const replayWebhookDeliverySchema = object({
+  params: object({
+    webhookId: string({
+      required_error: "webhookId is required",
+    }),
+    deliveryId: string({
+      required_error: "deliveryId is required",
+    }),
+  }),
+});
+
+export type CreateWebhookInput = TypeOf<typeof createWebhookSchema>;
+export type UpdateWebhookInput = TypeOf<typeof updateWebhookSchema>;
+export type GetWebhookInput = TypeOf<typeof getWebhookSchema>;
+export type DeleteWebhookInput = TypeOf<typeof deleteWebhookSchema>;
+export type ListWebhookDeliveriesInput = TypeOf<
+  typeof listWebhookDeliveriesSchema
+>;
+export type ReplayWebhookDeliveryInput = TypeOf<
+  typeof replayWebhookDeliverySchema
+>;
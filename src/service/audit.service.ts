@@ -0,0 +1,95 @@
+import { FilterQuery } from "mongoose";
+import { isEqual } from "lodash";
+import AuditEventModel, {
+  AuditChange,
+  AuditEventDocument,
+  AuditEventInput,
+} from "../models/auditEvent.model";
+import {
+  afterCursor,
+  buildPage,
+  decodeCursor,
+  sortFor,
+} from "../utils/pagination";
+import { getLogger } from "../utils/requestContext";
+
+export interface AuditEventFilters {
+  actor?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Bookkeeping fields that change on every write
+const ignoredFields = ["_id", "__v", "createdAt", "updatedAt"];
+
+export function diff(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+) {
+  const changes: Record<string, AuditChange> = {};
+
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+
+  fields.forEach((field) => {
+    if (ignoredFields.includes(field)) return;
+
+    const previous = before?.[field];
+    const next = after?.[field];
+
+    if (!isEqual(previous, next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  });
+
+  return changes;
+}
+
+// Failing to write the audit trail is logged, it never fails the request
+export async function recordAuditEvent(input: AuditEventInput) {
+  try {
+    await AuditEventModel.create(input);
+  } catch (e: any) {
+    getLogger().error({ err: e, audit: input }, "Could not record audit event");
+  }
+}
+
+export async function findAuditEvents(
+  { actor, action, targetType, targetId, from, to }: AuditEventFilters,
+  { cursor, limit }: { cursor?: string; limit: number }
+) {
+  const query: FilterQuery<AuditEventDocument> = {};
+
+  if (actor) query.actor = actor;
+  if (action) query.action = action;
+  if (targetType) query["target.type"] = targetType;
+  if (targetId) query["target.id"] = targetId;
+
+  if (from || to) {
+    query.createdAt = {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to }),
+    };
+  }
+
+  const decodedCursor = cursor ? decodeCursor(cursor) : null;
+
+  const pageQuery: FilterQuery<AuditEventDocument> = decodedCursor
+    ? { $and: [query, afterCursor("createdAt", "desc", decodedCursor)] }
+    : query;
+
+  const [results, total] = await Promise.all([
+    AuditEventModel.find(pageQuery)
+      .sort(sortFor("createdAt", "desc"))
+      .limit(limit + 1)
+      .lean(),
+    AuditEventModel.countDocuments(query),
+  ]);
+
+  return buildPage(results, limit, "createdAt", total);
+}
@@ -0,0 +1,71 @@
+import config from "config";
+import CartModel from "../models/cart.model";
+import { UserDocument } from "../models/user.model";
+
+type UserId = UserDocument["_id"];
+
+export async function findCart(user: UserId) {
+  const cart = await CartModel.findOne({ user }).lean();
+
+  // Users that never added anything have an empty cart
+  return cart || { user, items: [] };
+}
+
+function setQuantity(user: UserId, product: string, quantity: number) {
+  return CartModel.findOneAndUpdate(
+    { user, "items.product": product },
+    { $set: { "items.$.quantity": quantity } },
+    { new: true, lean: true }
+  );
+}
+
+// Adds the product to the cart, or changes the quantity if it is already in it.
+// Null when the product isn't in the cart and the cart is full
+export async function setCartItem(
+  user: UserId,
+  product: string,
+  quantity: number
+) {
+  const updated = await setQuantity(user, product, quantity);
+
+  if (updated) return updated;
+
+  try {
+    return await CartModel.findOneAndUpdate(
+      {
+        user,
+        "items.product": { $ne: product },
+        // The cart has room for one more item
+        [`items.${config.get<number>("cart.maxItems") - 1}`]: {
+          $exists: false,
+        },
+      },
+      { $push: { items: { product, quantity } } },
+      { new: true, lean: true, upsert: true }
+    );
+  } catch (e: any) {
+    // Another request added the product first, or the cart is full. The upsert
+    // then clashes with the existing cart
+    if (e.code === 11000) {
+      return setQuantity(user, product, quantity);
+    }
+
+    throw e;
+  }
+}
+
+export async function removeCartItem(user: UserId, product: string) {
+  return CartModel.findOneAndUpdate(
+    { user },
+    { $pull: { items: { product } } },
+    { new: true, lean: true }
+  );
+}
+
+export async function clearCart(user: UserId) {
+  return CartModel.updateOne({ user }, { $set: { items: [] } });
+}
+
+export async function deleteCart(user: UserId) {
+  return CartModel.deleteOne({ user });
+}
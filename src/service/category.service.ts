@@ -0,0 +1,83 @@
+import { FilterQuery, QueryOptions } from "mongoose";
+import CategoryModel, {
+  CategoryDocument,
+  CategoryInput,
+} from "../models/category.model";
+
+export async function createCategory(
+  input: CategoryInput & { ancestors: string[] }
+) {
+  return CategoryModel.create(input);
+}
+
+export async function findCategory(
+  query: FilterQuery<CategoryDocument>,
+  options: QueryOptions = { lean: true }
+) {
+  return CategoryModel.findOne(query, {}, options);
+}
+
+// There are few categories, they are always listed in full
+export async function findCategories(
+  query: FilterQuery<CategoryDocument> = {}
+) {
+  return CategoryModel.find(query).sort({ name: 1 }).lean();
+}
+
+// The categoryIds of the category and every category below it
+export async function findCategorySubtree(categoryId: string) {
+  const descendants = await CategoryModel.find(
+    { ancestors: categoryId },
+    { categoryId: 1 }
+  ).lean();
+
+  return [categoryId, ...descendants.map(({ categoryId }) => categoryId)];
+}
+
+export async function updateCategory(
+  categoryId: string,
+  update: CategoryInput & { ancestors: string[] }
+) {
+  const category = await CategoryModel.findOneAndUpdate(
+    { categoryId },
+    update,
+    { new: true, lean: true }
+  );
+
+  if (!category) return null;
+
+  // The category may have moved, its descendants keep their path below it
+  const descendants = await CategoryModel.find(
+    { ancestors: categoryId },
+    {
+      ancestors: 1,
+    }
+  ).lean();
+
+  if (descendants.length) {
+    await CategoryModel.bulkWrite(
+      descendants.map((descendant) => ({
+        updateOne: {
+          filter: { _id: descendant._id },
+          update: {
+            $set: {
+              ancestors: [
+                ...update.ancestors,
+                categoryId,
+                ...descendant.ancestors.slice(
+                  descendant.ancestors.indexOf(categoryId) + 1
+                ),
+              ],
+            },
+          },
+        },
+      }))
+    );
+  }
+
+  return category;
+}
+
+export async function deleteCategory(query: FilterQuery<CategoryDocument>) {
+  return CategoryModel.deleteOne(query);
+}
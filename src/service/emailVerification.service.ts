@@ -0,0 +1,61 @@
+import config from "config";
+import dayjs from "dayjs";
+import EmailVerificationTokenModel from "../models/emailVerificationToken.model";
+import { sendMail } from "../utils/mailer";
+import { generateToken, hashToken } from "../utils/tokens";
+
+export async function createEmailVerificationToken(userId: string) {
+  // Only the latest token can be used
+  await EmailVerificationTokenModel.deleteMany({ user: userId });
+
+  const token = generateToken();
+
+  await EmailVerificationTokenModel.create({
+    user: userId,
+    tokenHash: hashToken(token),
+    expiresAt: dayjs()
+      .add(config.get<number>("emailVerification.tokenTtl"), "second")
+      .toDate(),
+  });
+
+  return token;
+}
+
+// Deletes the token and returns it, or null if it is unknown or expired
+export async function consumeEmailVerificationToken(token: string) {
+  return EmailVerificationTokenModel.findOneAndDelete({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() },
+  }).lean();
+}
+
+// Seconds until another verification email may be sent, 0 if it can be sent now
+export async function verificationEmailRetryAfter(userId: string) {
+  const latest = await EmailVerificationTokenModel.findOne({ user: userId })
+    .sort({ createdAt: -1 })
+    .lean();
+
+  if (!latest) return 0;
+
+  const nextAllowed = dayjs(latest.createdAt).add(
+    config.get<number>("emailVerification.resendInterval"),
+    "second"
+  );
+
+  return Math.max(0, Math.ceil(nextAllowed.diff(dayjs(), "second", true)));
+}
+
+export async function sendVerificationEmail(user: {
+  _id: string;
+  email: string;
+}) {
+  const token = await createEmailVerificationToken(user._id);
+
+  const link = `${config.get<string>("clientUrl")}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email address",
+    text: `Follow this link to verify your email address: ${link}`,
+  });
+}
@@ -0,0 +1,93 @@
+import config from "config";
+import dayjs from "dayjs";
+import { LeanDocument } from "mongoose";
+import IdempotencyKeyModel, {
+  IdempotencyKeyDocument,
+  IdempotencyKeyInput,
+  IdempotentResponse,
+} from "../models/idempotencyKey.model";
+
+interface IdempotencyConfig {
+  // How long responses are kept for replays, in seconds
+  ttl: number;
+  // How long a request has to answer before a retry may take over its key,
+  // in seconds
+  lockTimeout: number;
+}
+
+export interface IdempotencyClaim {
+  // True when this request owns the key and has to handle the request
+  claimed: boolean;
+  // Null when the key disappeared between the two queries
+  record: LeanDocument<IdempotencyKeyDocument> | null;
+}
+
+// Inserts the key, or loads the request that already used it. The unique
+// index makes sure only one of several concurrent requests claims the key
+export async function claimIdempotencyKey(
+  input: IdempotencyKeyInput
+): Promise<IdempotencyClaim> {
+  const { ttl, lockTimeout } = config.get<IdempotencyConfig>("idempotency");
+
+  const lockedUntil = dayjs().add(lockTimeout, "second").toDate();
+
+  try {
+    const record = await IdempotencyKeyModel.create({
+      ...input,
+      lockedUntil,
+      expiresAt: dayjs().add(ttl, "second").toDate(),
+    });
+
+    return { claimed: true, record: record.toObject() };
+  } catch (e: any) {
+    if (e.code !== 11000) throw e;
+  }
+
+  const existing = await IdempotencyKeyModel.findOne({
+    user: input.user,
+    key: input.key,
+  }).lean();
+
+  if (
+    !existing ||
+    existing.response ||
+    existing.lockedUntil > new Date() ||
+    existing.requestHash !== input.requestHash
+  ) {
+    return { claimed: false, record: existing };
+  }
+
+  // The request that claimed the key never answered, e.g. the process
+  // stopped, so this one takes over. The lock is part of the query so only one
+  // retry can do it
+  const takenOver = await IdempotencyKeyModel.findOneAndUpdate(
+    {
+      _id: existing._id,
+      response: { $exists: false },
+      lockedUntil: existing.lockedUntil,
+    },
+    { $set: { lockedUntil } },
+    { new: true, lean: true }
+  );
+
+  return takenOver
+    ? { claimed: true, record: takenOver }
+    : { claimed: false, record: existing };
+}
+
+export async function saveIdempotentResponse(
+  record: Pick<IdempotencyKeyDocument, "_id">,
+  response: IdempotentResponse
+) {
+  return IdempotencyKeyModel.updateOne(
+    { _id: record._id },
+    { $set: { response } }
+  );
+}
+
+// Frees the key so the request can be retried with it
+export async function releaseIdempotencyKey(
+  record: Pick<IdempotencyKeyDocument, "_id">
+) {
+  return IdempotencyKeyModel.deleteOne({ _id: record._id });
+}
@@ -0,0 +1,167 @@
+import config from "config";
+import dayjs from "dayjs";
+import { getLogger } from "../utils/requestContext";
+import {
+  LoginAttempt,
+  LoginAttemptStore,
+  memoryLoginAttemptStore,
+  mongoLoginAttemptStore,
+} from "../utils/loginAttemptStore";
+
+export interface LoginBlock {
+  // 423 when the account is locked, 429 when the client has to back off
+  status: 423 | 429;
+  retryAfter: number;
+}
+
+interface LoginAttemptKeys {
+  email: string;
+  ip?: string;
+}
+
+function createStore(): LoginAttemptStore {
+  const store = config.get<string>("loginProtection.store");
+
+  switch (store) {
+    case "memory":
+      return memoryLoginAttemptStore();
+    case "mongo":
+      return mongoLoginAttemptStore();
+    default:
+      throw new Error(`Unknown login attempt store: ${store}`);
+  }
+}
+
+let store: LoginAttemptStore | undefined;
+
+function getStore() {
+  if (!store) {
+    store = createStore();
+  }
+
+  return store;
+}
+
+// Lets tests swap in their own store
+export function setLoginAttemptStore(loginAttemptStore: LoginAttemptStore) {
+  store = loginAttemptStore;
+}
+
+const accountKey = (email: string) => `account:${email.toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+function backoffSeconds(failures: number, freeAttempts: number) {
+  const over = failures - freeAttempts;
+
+  if (over <= 0) return 0;
+
+  return Math.min(
+    config.get<number>("loginProtection.maxBackoff"),
+    config.get<number>("loginProtection.backoffBase") * 2 ** (over - 1)
+  );
+}
+
+function secondsUntil(date: dayjs.Dayjs) {
+  return Math.max(0, Math.ceil(date.diff(dayjs(), "second", true)));
+}
+
+function backoffRemaining(attempt: LoginAttempt | null, freeAttempts: number) {
+  if (!attempt || !attempt.lastFailureAt) return 0;
+
+  return secondsUntil(
+    dayjs(attempt.lastFailureAt).add(
+      backoffSeconds(attempt.failures, freeAttempts),
+      "second"
+    )
+  );
+}
+
+function blockFor(
+  account: LoginAttempt | null,
+  address: LoginAttempt | null
+): LoginBlock | null {
+  if (account?.lockedUntil) {
+    const retryAfter = secondsUntil(dayjs(account.lockedUntil));
+
+    if (retryAfter > 0) return { status: 423, retryAfter };
+  }
+
+  const retryAfter = Math.max(
+    backoffRemaining(
+      account,
+      config.get<number>("loginProtection.account.freeAttempts")
+    ),
+    backoffRemaining(
+      address,
+      config.get<number>("loginProtection.ip.freeAttempts")
+    )
+  );
+
+  return retryAfter > 0 ? { status: 429, retryAfter } : null;
+}
+
+// Counts the attempt as a failure before the password is checked, and decides
+// from the attempts counted before it. Concurrent guesses are counted one
+// after the other, so they can't all get through before the first fails.
+// Retrying while blocked starts the wait again
+export async function startLoginAttempt({
+  email,
+  ip,
+}: LoginAttemptKeys): Promise<LoginBlock | null> {
+  const expiresAt = dayjs()
+    .add(config.get<number>("loginProtection.window"), "second")
+    .toDate();
+
+  const [account, address] = await Promise.all([
+    getStore().countAttempt(accountKey(email), expiresAt),
+    ip ? getStore().countAttempt(ipKey(ip), expiresAt) : null,
+  ]);
+
+  const block = blockFor(account, address);
+
+  // The password isn't checked, so the attempt isn't a failure
+  if (block) {
+    await Promise.all([
+      getStore().uncountAttempt(accountKey(email)),
+      ip ? getStore().uncountAttempt(ipKey(ip)) : null,
+    ]);
+  }
+
+  return block;
+}
+
+// The failure was counted by startLoginAttempt, this locks the account once
+// there are too many
+export async function recordLoginFailure({ email, ip }: LoginAttemptKeys) {
+  const account = await getStore().get(accountKey(email));
+
+  if (
+    account &&
+    account.failures >=
+      config.get<number>("loginProtection.account.lockoutThreshold")
+  ) {
+    const lockoutDuration = config.get<number>(
+      "loginProtection.account.lockoutDuration"
+    );
+
+    await getStore().lock(
+      accountKey(email),
+      dayjs().add(lockoutDuration, "second").toDate()
+    );
+
+    getLogger().warn(
+      { event: "account_locked", email, ip, lockoutDuration },
+      "Too many failed logins, account locked"
+    );
+  }
+}
+
+// The address is not reset, otherwise an attacker could keep guessing other
+// accounts by logging into their own one every now and then. Only the
+// successful attempt is taken back
+export async function recordLoginSuccess({ email, ip }: LoginAttemptKeys) {
+  await Promise.all([
+    getStore().reset(accountKey(email)),
+    ip ? getStore().uncountAttempt(ipKey(ip)) : null,
+  ]);
+}
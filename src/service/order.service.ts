@@ -0,0 +1,175 @@
+import { FilterQuery } from "mongoose";
+import OrderModel, {
+  OrderDocument,
+  OrderInput,
+  OrderStatus,
+  OrderStatusChange,
+} from "../models/order.model";
+import {
+  adjustStock,
+  commitReservation,
+  releaseReservation,
+} from "./product.service";
+import {
+  afterCursor,
+  buildPage,
+  decodeCursor,
+  sortFor,
+} from "../utils/pagination";
+
+type Order = Pick<OrderDocument, "orderId" | "status" | "items">;
+
+type StatusChange = Omit<OrderStatusChange, "status" | "at">;
+
+// The statuses an order can move to from each status
+export const orderTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["fulfilled", "cancelled"],
+  fulfilled: [],
+  cancelled: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return orderTransitions[from].includes(to);
+}
+
+export async function createOrder(input: OrderInput, change: StatusChange) {
+  return OrderModel.create({
+    ...input,
+    sellers: input.items.map(({ seller }) => seller),
+    statusHistory: [{ status: "pending", ...change, at: new Date() }],
+  });
+}
+
+export async function findOrder(query: FilterQuery<OrderDocument>) {
+  return OrderModel.findOne(query).lean();
+}
+
+export async function findOrders(
+  query: FilterQuery<OrderDocument>,
+  { cursor, limit }: { cursor?: string; limit: number }
+) {
+  const decodedCursor = cursor ? decodeCursor(cursor) : null;
+
+  const pageQuery: FilterQuery<OrderDocument> = decodedCursor
+    ? { $and: [query, afterCursor("createdAt", "desc", decodedCursor)] }
+    : query;
+
+  const [results, total] = await Promise.all([
+    OrderModel.find(pageQuery)
+      .sort(sortFor("createdAt", "desc"))
+      .limit(limit + 1)
+      .lean(),
+    OrderModel.countDocuments(query),
+  ]);
+
+  return buildPage(results, limit, "createdAt", total);
+}
+
+// Moves the order from `from` to `to`. Null when the transition isn't allowed
+// or the order is no longer in `from`, e.g. another request changed it first
+async function transitionOrder(
+  orderId: string,
+  from: OrderStatus,
+  to: OrderStatus,
+  change: StatusChange
+) {
+  if (!canTransition(from, to)) return null;
+
+  return OrderModel.findOneAndUpdate(
+    { orderId, status: from },
+    {
+      $set: { status: to },
+      $push: { statusHistory: { status: to, ...change, at: new Date() } },
+    },
+    { new: true, lean: true }
+  );
+}
+
+// Takes the ordered units out of stock, through their reservations or, for
+// reservations that expired, from the units still available. Either every
+// item gets its units or none do
+async function takeOrderStock(order: Order) {
+  const taken: Order["items"] = [];
+
+  for (const item of order.items) {
+    const committed =
+      (await commitReservation(item.reservation)) ||
+      (await adjustStock(
+        { productId: item.product },
+        { adjustment: -item.quantity }
+      ));
+
+    if (!committed) {
+      // Put back what was taken and let go of the other reservations,
+      // releasing a committed reservation does nothing
+      await Promise.all(
+        taken.map(({ product, quantity }) =>
+          adjustStock({ productId: product }, { adjustment: quantity })
+        )
+      );
+
+      await Promise.all(
+        order.items.map(({ reservation }) => releaseReservation(reservation))
+      );
+
+      return false;
+    }
+
+    taken.push(item);
+  }
+
+  return true;
+}
+
+// Pending orders hold reservations, paid orders have already taken their units
+async function returnOrderStock(order: Order, from: OrderStatus) {
+  await Promise.all(
+    order.items.map(async ({ product, quantity, reservation }) => {
+      if (from === "pending") {
+        await releaseReservation(reservation);
+      } else {
+        await adjustStock({ productId: product }, { adjustment: quantity });
+      }
+    })
+  );
+}
+
+// Null when the order can't be paid. An order whose products are no longer in
+// stock is cancelled instead, check the status of the returned order
+export async function markOrderPaid(order: Order, change: StatusChange) {
+  const paidOrder = await transitionOrder(
+    order.orderId,
+    order.status,
+    "paid",
+    change
+  );
+
+  if (!paidOrder) return null;
+
+  if (await takeOrderStock(paidOrder)) return paidOrder;
+
+  return transitionOrder(order.orderId, "paid", "cancelled", {
+    reason: "Out of stock",
+  });
+}
+
+export async function fulfilOrder(order: Order, change: StatusChange) {
+  return transitionOrder(order.orderId, order.status, "fulfilled", change);
+}
+
+// Gives the units back, null when the order can't be cancelled
+export async function cancelOrder(order: Order, change: StatusChange) {
+  const cancelledOrder = await transitionOrder(
+    order.orderId,
+    order.status,
+    "cancelled",
+    change
+  );
+
+  if (cancelledOrder) {
+    await returnOrderStock(order, order.status);
+  }
+
+  return cancelledOrder;
+}
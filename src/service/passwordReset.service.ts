@@ -0,0 +1,35 @@
+import config from "config";
+import dayjs from "dayjs";
+import PasswordResetTokenModel from "../models/passwordResetToken.model";
+import { generateToken, hashToken } from "../utils/tokens";
+
+export async function createPasswordResetToken(userId: string) {
+  // Only the latest token can be used
+  await PasswordResetTokenModel.deleteMany({ user: userId });
+
+  const token = generateToken();
+
+  await PasswordResetTokenModel.create({
+    user: userId,
+    tokenHash: hashToken(token),
+    expiresAt: dayjs()
+      .add(config.get<number>("passwordResetTokenTtl"), "second")
+      .toDate(),
+  });
+
+  return token;
+}
+
+// Marks the token as used and returns it, or null if it is unknown, expired or
+// already used. The update is atomic so a token can only be consumed once.
+export async function consumePasswordResetToken(token: string) {
+  return PasswordResetTokenModel.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+    { new: true }
+  ).lean();
+}
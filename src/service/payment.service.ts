@@ -0,0 +1,175 @@
+import { FilterQuery } from "mongoose";
+import PaymentModel, { PaymentDocument } from "../models/payment.model";
+import PaymentEventModel from "../models/paymentEvent.model";
+import { OrderDocument } from "../models/order.model";
+import { findOrder, markOrderPaid } from "./order.service";
+import { getPaymentProvider, PaymentEvent } from "../utils/payments";
+import { getLogger } from "../utils/requestContext";
+
+// Reuses the order's pending payment, so retrying checkout doesn't start a
+// second payment for the same order. Null when the order has a pending payment
+// for another amount
+export async function createPaymentIntent(
+  order: Pick<OrderDocument, "orderId" | "total" | "currency">
+) {
+  const provider = getPaymentProvider();
+
+  const query = {
+    order: order.orderId,
+    provider: provider.name,
+    status: "pending" as const,
+    amount: order.total,
+    currency: order.currency,
+  };
+
+  const existing = await PaymentModel.findOne(query)
+    .select("+clientSecret")
+    .lean();
+
+  if (existing) return existing;
+
+  const intent = await provider.createIntent({
+    amount: order.total,
+    currency: order.currency,
+    reference: order.orderId,
+  });
+
+  try {
+    const payment = await PaymentModel.create({
+      ...query,
+      intentId: intent.id,
+      clientSecret: intent.clientSecret,
+    });
+
+    return payment.toObject();
+  } catch (e: any) {
+    // Another request started a payment for the order first
+    if (e.code === 11000) {
+      return PaymentModel.findOne(query).select("+clientSecret").lean();
+    }
+
+    throw e;
+  }
+}
+
+export async function findPayment(query: FilterQuery<PaymentDocument>) {
+  return PaymentModel.findOne(query).lean();
+}
+
+// Handles each event once, returns false for an event that was already handled
+export async function handlePaymentEvent(event: PaymentEvent) {
+  const provider = getPaymentProvider().name;
+
+  try {
+    await PaymentEventModel.create({
+      provider,
+      eventId: event.id,
+      type: event.type,
+      intentId: event.intentId,
+    });
+  } catch (e: any) {
+    if (e.code === 11000) return false;
+
+    throw e;
+  }
+
+  try {
+    await applyPaymentEvent(provider, event);
+  } catch (e) {
+    // Forget the event so the provider's redelivery is handled
+    await PaymentEventModel.deleteOne({ provider, eventId: event.id });
+    throw e;
+  }
+
+  return true;
+}
+
+// Every step checks what was already done, so when one fails the provider's
+// redelivery of the event picks up where it stopped
+async function applyPaymentEvent(provider: string, event: PaymentEvent) {
+  const payment = await PaymentModel.findOne({
+    provider,
+    intentId: event.intentId,
+  }).lean();
+
+  if (
+    !payment ||
+    payment.amount !== event.amount ||
+    payment.currency !== event.currency
+  ) {
+    getLogger().warn({ event }, "Payment event doesn't match a payment");
+    return;
+  }
+
+  if (event.type === "payment.failed") {
+    // A failed payment leaves the order pending, the buyer can try again
+    await PaymentModel.updateOne(
+      { _id: payment._id, status: "pending" },
+      { $set: { status: "failed" } }
+    );
+    return;
+  }
+
+  const settled =
+    payment.status === "pending"
+      ? await PaymentModel.findOneAndUpdate(
+          { _id: payment._id, status: "pending" },
+          { $set: { status: "succeeded" } },
+          { new: true, lean: true }
+        )
+      : payment;
+
+  if (settled?.status !== "succeeded") return;
+
+  await payOrder(provider, settled);
+}
+
+async function payOrder(
+  provider: string,
+  payment: Pick<PaymentDocument, "_id" | "order" | "intentId">
+) {
+  let order = await findOrder({ orderId: payment.order });
+
+  if (order?.status === "pending") {
+    order =
+      (await markOrderPaid(order, {
+        reason: `Paid with ${provider} payment ${payment.intentId}`,
+        payment: payment.intentId,
+      })) || (await findOrder({ orderId: payment.order }));
+  }
+
+  const paidByPayment = order?.statusHistory.some(
+    (change) => change.status === "paid" && change.payment === payment.intentId
+  );
+
+  if (order && paidByPayment && order.status !== "cancelled") return;
+
+  // The order was cancelled, paid another way, or its products are out of
+  // stock, so the money goes back. Refunding the same intent again is safe
+  await getPaymentProvider().refund(payment.intentId);
+
+  await PaymentModel.updateOne(
+    { _id: payment._id },
+    { $set: { status: "refunded" } }
+  );
+}
+
+// Gives the money of a cancelled order back. Refunding the same intent again
+// is safe, so a failure part way through can be retried
+export async function refundOrderPayments(
+  order: Pick<OrderDocument, "orderId">
+) {
+  const payments = await PaymentModel.find({
+    order: order.orderId,
+    status: "succeeded",
+  }).lean();
+
+  for (const payment of payments) {
+    await getPaymentProvider().refund(payment.intentId);
+
+    await PaymentModel.updateOne(
+      { _id: payment._id, status: "succeeded" },
+      { $set: { status: "refunded" } }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { FilterQuery } from "mongoose";
+import PriceChangeModel, {
+  PriceChangeDocument,
+} from "../models/priceChange.model";
+import {
+  afterCursor,
+  buildPage,
+  decodeCursor,
+  sortFor,
+} from "../utils/pagination";
+import { getLogger, getRequestUserId } from "../utils/requestContext";
+
+// Records the product's price unless it is already the latest one, so saving a
+// product without changing its price doesn't add to the history. Called once
+// the product is saved, so failing is logged rather than failing the request
+export async function recordPrice(product: {
+  productId: string;
+  price: number;
+  currency: string;
+}) {
+  try {
+    const latest = await PriceChangeModel.findOne({
+      product: product.productId,
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .lean();
+
+    if (
+      latest &&
+      latest.price === product.price &&
+      latest.currency === product.currency
+    ) {
+      return;
+    }
+
+    await PriceChangeModel.create({
+      product: product.productId,
+      price: product.price,
+      currency: product.currency,
+      changedBy: getRequestUserId(),
+    });
+  } catch (e: any) {
+    getLogger().error(
+      { err: e, productId: product.productId },
+      "Could not record the product price"
+    );
+  }
+}
+
+export async function findPriceHistory(
+  productId: string,
+  { cursor, limit }: { cursor?: string; limit: number }
+) {
+  const query: FilterQuery<PriceChangeDocument> = { product: productId };
+
+  const decodedCursor = cursor ? decodeCursor(cursor) : null;
+
+  const pageQuery: FilterQuery<PriceChangeDocument> = decodedCursor
+    ? { $and: [query, afterCursor("createdAt", "desc", decodedCursor)] }
+    : query;
+
+  const [results, total] = await Promise.all([
+    // The history is public, who changed a price is only kept for audits
+    PriceChangeModel.find(pageQuery)
+      .select("-changedBy")
+      .sort(sortFor("createdAt", "desc"))
+      .limit(limit + 1)
+      .lean(),
+    PriceChangeModel.countDocuments(query),
+  ]);
+
+  return buildPage(results, limit, "createdAt", total);
+}
@@ -1,9 +1,57 @@
-import { FilterQuery, QueryOptions, UpdateQuery } from "mongoose";
+import mongoose, { FilterQuery, QueryOptions, UpdateQuery } from "mongoose";
+import config from "config";
+import { escapeRegExp, omit } from "lodash";
 import ProductModel, {
   ProductDocument,
+  ProductImageFile,
   ProductInput,
 } from "../models/product.model";
+import ReservationModel, {
+  ReservationDocument,
+} from "../models/reservation.model";
+import { UserDocument } from "../models/user.model";
+import { removeProductImageFiles } from "./productImage.service";
+import { recordPrice } from "./priceHistory.service";
+import { findCategories, findCategorySubtree } from "./category.service";
 import { databaseResponseTimeHistogram } from "../utils/metrics";
+import { minorUnitDigits } from "../utils/money";
+import { getLogger } from "../utils/requestContext";
+import {
+  highlight,
+  prefixPattern,
+  searchPrefixes,
+  searchWords,
+} from "../utils/highlight";
+import {
+  afterCursor,
+  buildPage,
+  decodeCursor,
+  sortFor,
+  SortOrder,
+} from "../utils/pagination";
+
+export interface ProductFilters {
+  q?: string;
+  user?: string;
+  category?: string;
+  tags?: string[];
+  currency?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  // Only list products in the trash
+  trashed?: boolean;
+}
+
+export interface ProductListOptions {
+  cursor?: string;
+  limit: number;
+  sort: string;
+  order: SortOrder;
+}
 
 export async function createProduct(input: ProductInput) {
   const metricsLabels = {
@@ -11,14 +59,21 @@ export async function createProduct(input: ProductInput) {
   };
 
   const timer = databaseResponseTimeHistogram.startTimer();
+  let result;
   try {
-    const result = await ProductModel.create(input);
+    result = await ProductModel.create({
+      ...input,
+      searchWords: searchWords(input.title, input.description),
+    });
     timer({ ...metricsLabels, success: "true" });
-    return result;
   } catch (e) {
     timer({ ...metricsLabels, success: "false" });
     throw e;
   }
+
+  await recordPrice(result);
+
+  return result;
 }
 
 export async function findProduct(
@@ -31,7 +86,12 @@ export async function findProduct(
 
   const timer = databaseResponseTimeHistogram.startTimer();
   try {
-    const result = await ProductModel.findOne(query, {}, options);
+    // Products in the trash are left out unless the query asks for them
+    const result = await ProductModel.findOne(
+      { deletedAt: null, ...query },
+      {},
+      options
+    );
     timer({ ...metricsLabels, success: "true" });
     return result;
   } catch (e) {
@@ -41,14 +101,595 @@ export async function findProduct(
   }
 }
 
+function range<T>(from?: T, to?: T) {
+  if (from === undefined && to === undefined) return undefined;
+
+  return {
+    ...(from !== undefined && { $gte: from }),
+    ...(to !== undefined && { $lte: to }),
+  };
+}
+
+async function buildProductFilter(filters: ProductFilters) {
+  const query: FilterQuery<ProductDocument> = {
+    deletedAt: filters.trashed ? { $ne: null } : null,
+  };
+
+  if (filters.q) {
+    query.title = { $regex: escapeRegExp(filters.q), $options: "i" };
+  }
+
+  if (filters.user) {
+    // Cast here as aggregation pipelines don't cast their $match
+    query.user = new mongoose.Types.ObjectId(filters.user);
+  }
+
+  if (filters.category) {
+    query.category = { $in: await findCategorySubtree(filters.category) };
+  }
+
+  if (filters.tags?.length) {
+    query.tags = { $all: filters.tags };
+  }
+
+  if (filters.currency) {
+    query.currency = filters.currency;
+  }
+
+  const price = range(filters.minPrice, filters.maxPrice);
+  if (price) query.price = price;
+
+  const createdAt = range(filters.createdFrom, filters.createdTo);
+  if (createdAt) query.createdAt = createdAt;
+
+  const updatedAt = range(filters.updatedFrom, filters.updatedTo);
+  if (updatedAt) query.updatedAt = updatedAt;
+
+  return query;
+}
+
+export async function findProducts(
+  filters: ProductFilters,
+  { cursor, limit, sort, order }: ProductListOptions
+) {
+  const metricsLabels = {
+    operation: "findProducts",
+  };
+
+  const query = await buildProductFilter(filters);
+  const decodedCursor = cursor ? decodeCursor(cursor) : null;
+
+  const pageQuery: FilterQuery<ProductDocument> = decodedCursor
+    ? { $and: [query, afterCursor(sort, order, decodedCursor)] }
+    : query;
+
+  const timer = databaseResponseTimeHistogram.startTimer();
+  try {
+    const [results, total] = await Promise.all([
+      ProductModel.find(pageQuery)
+        .sort(sortFor(sort, order))
+        .limit(limit + 1)
+        .lean(),
+      ProductModel.countDocuments(query),
+    ]);
+    timer({ ...metricsLabels, success: "true" });
+    return buildPage(results, limit, sort, total);
+  } catch (e) {
+    timer({ ...metricsLabels, success: "false" });
+    throw e;
+  }
+}
+
+// Ranks products with the text index, then fills the remaining places with
+// products where a word starts with one of the searched prefixes, which the
+// text index can't find
+export async function searchProducts(
+  q: string,
+  filters: ProductFilters,
+  limit: number
+) {
+  const metricsLabels = {
+    operation: "searchProducts",
+  };
+
+  const query = await buildProductFilter(filters);
+  const prefixes = searchPrefixes(q);
+
+  const timer = databaseResponseTimeHistogram.startTimer();
+  try {
+    const matches = await ProductModel.find(
+      { ...query, $text: { $search: q } },
+      { score: { $meta: "textScore" } }
+    )
+      .sort({ score: { $meta: "textScore" } })
+      .limit(limit)
+      .lean();
+
+    let prefixMatches: typeof matches = [];
+
+    if (matches.length < limit && prefixes.length) {
+      const pattern = prefixPattern(prefixes);
+      const count = (field: string) => ({
+        $size: {
+          $regexFindAll: { input: field, regex: pattern.source, options: "i" },
+        },
+      });
+
+      // The anchored prefixes use the searchWords index. The products are
+      // ranked with the same weights as the text index before the limit,
+      // always after the text index's matches
+      prefixMatches = await ProductModel.aggregate([
+        {
+          $match: {
+            ...query,
+            _id: { $nin: matches.map(({ _id }) => _id) },
+            searchWords: {
+              $in: prefixes.map(
+                (prefix) => new RegExp(`^${escapeRegExp(prefix)}`)
+              ),
+            },
+          },
+        },
+        {
+          $addFields: {
+            prefixScore: {
+              $add: [
+                { $multiply: [count("$title"), 10] },
+                { $multiply: [count("$description"), 2] },
+              ],
+            },
+          },
+        },
+        { $sort: { prefixScore: -1, _id: 1 } },
+        { $limit: limit - matches.length },
+        { $project: { prefixScore: 0, searchWords: 0 } },
+      ]);
+    }
+
+    timer({ ...metricsLabels, success: "true" });
+
+    return {
+      data: [...matches, ...prefixMatches].map((product) => ({
+        ...product,
+        highlights: {
+          title: highlight(product.title, prefixes, Infinity),
+          description: highlight(product.description, prefixes),
+        },
+      })),
+    };
+  } catch (e) {
+    timer({ ...metricsLabels, success: "false" });
+    throw e;
+  }
+}
+
+interface FacetCount<T> {
+  _id: T;
+  count: number;
+}
+
+// Counts the products matching the filters per category, tag and price range
+export async function findProductFacets(filters: ProductFilters) {
+  const metricsLabels = {
+    operation: "findProductFacets",
+  };
+
+  const query = await buildProductFilter(filters);
+  const boundaries = config.get<number[]>("facets.priceBuckets");
+
+  const timer = databaseResponseTimeHistogram.startTimer();
+  try {
+    const [facets] = await ProductModel.aggregate<{
+      categories: FacetCount<string>[];
+      tags: FacetCount<string>[];
+      prices: FacetCount<number | "other">[];
+    }>([
+      { $match: query },
+      {
+        $facet: {
+          categories: [
+            { $match: { category: { $ne: null } } },
+            { $group: { _id: "$category", count: { $sum: 1 } } },
+          ],
+          tags: [
+            { $unwind: "$tags" },
+            { $group: { _id: "$tags", count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            { $limit: config.get<number>("facets.tagLimit") },
+          ],
+          prices: [
+            {
+              $bucket: {
+                groupBy: "$price",
+                boundaries,
+                default: "other",
+                output: { count: { $sum: 1 } },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+    timer({ ...metricsLabels, success: "true" });
+
+    return {
+      categories: await rollUpCategoryCounts(facets.categories),
+      tags: facets.tags.map(({ _id, count }) => ({ tag: _id, count })),
+      prices: facets.prices.map(({ _id, count }) => {
+        // Anything above the last boundary
+        if (_id === "other") {
+          return { min: boundaries[boundaries.length - 1], max: null, count };
+        }
+
+        return {
+          min: _id,
+          max: boundaries[boundaries.indexOf(_id) + 1],
+          count,
+        };
+      }),
+    };
+  } catch (e) {
+    timer({ ...metricsLabels, success: "false" });
+    throw e;
+  }
+}
+
+// Adds the products of each category to its ancestors' counts, to match the
+// category filter that includes subcategories
+async function rollUpCategoryCounts(counts: FacetCount<string>[]) {
+  const categories = await findCategories();
+  const totals = new Map<string, number>();
+
+  counts.forEach(({ _id, count }) => {
+    const category = categories.find(({ categoryId }) => categoryId === _id);
+
+    // Products can outlive their category
+    if (!category) return;
+
+    [...category.ancestors, category.categoryId].forEach((categoryId) => {
+      totals.set(categoryId, (totals.get(categoryId) || 0) + count);
+    });
+  });
+
+  return categories
+    .filter(({ categoryId }) => totals.has(categoryId))
+    .map(({ categoryId, name, parent }) => ({
+      categoryId,
+      name,
+      parent,
+      count: totals.get(categoryId),
+    }));
+}
+
+export async function countProducts(query: FilterQuery<ProductDocument>) {
+  return ProductModel.countDocuments(query);
+}
+
+// Set by the server, never by an update
+const protectedProductFields = [
+  "_id",
+  "productId",
+  "user",
+  "createdAt",
+  "updatedAt",
+  "deletedAt",
+  "imageFiles",
+  "stock",
+  "reserved",
+  "searchWords",
+  "__v",
+];
+
 export async function findAndUpdateProduct(
   query: FilterQuery<ProductDocument>,
   update: UpdateQuery<ProductDocument>,
   options: QueryOptions
 ) {
-  return ProductModel.findOneAndUpdate(query, update, options);
+  // Every update bumps the version, it is what the ETag is derived from
+  const product = await ProductModel.findOneAndUpdate(
+    { deletedAt: null, ...query },
+    {
+      ...omit(update, protectedProductFields),
+      $inc: { ...update.$inc, __v: 1 },
+    },
+    options
+  );
+
+  if (product) {
+    // Without the new option the product is the one from before the update
+    const current = options.new
+      ? product
+      : await ProductModel.findById(product._id)
+          .lean()
+          .catch((e) => {
+            getLogger().error(
+              { err: e, productId: product.productId },
+              "Could not record the product price"
+            );
+            return null;
+          });
+
+    if (current) await recordPrice(current);
+
+    if (current && (update.title || update.description)) {
+      await updateSearchWords(current);
+    }
+  }
+
+  return product;
+}
+
+// Only written while the text is still the same, a concurrent edit writes the
+// words of its own text
+async function updateSearchWords(
+  product: Pick<ProductDocument, "_id" | "title" | "description">
+) {
+  await ProductModel.updateOne(
+    {
+      _id: product._id,
+      title: product.title,
+      description: product.description,
+    },
+    { $set: { searchWords: searchWords(product.title, product.description) } }
+  );
+}
+
+// Products saved before prefix searches used an index have no words, these
+// are added one product at a time. Returns how many products were updated
+export async function addMissingSearchWords() {
+  let updated = 0;
+
+  await ProductModel.find({ searchWords: { $exists: false } })
+    .select("title description")
+    .lean()
+    .cursor()
+    .eachAsync(async (product) => {
+      await updateSearchWords(product);
+      updated += 1;
+    });
+
+  return updated;
+}
+
+// Products saved before prices had a currency store a decimal amount, these
+// are converted to minor units of `currency`. Only touches products without a
+// currency, so running it again does nothing
+export async function convertLegacyPrices(currency: string) {
+  const factor = Math.pow(10, minorUnitDigits(currency));
+
+  return ProductModel.updateMany({ currency: { $exists: false } }, [
+    {
+      $set: {
+        price: { $round: [{ $multiply: ["$price", factor] }, 0] },
+        currency,
+        __v: { $add: [{ $ifNull: ["$__v", 0] }, 1] },
+      },
+    },
+  ]);
+}
+
+// Moves the product to the trash, it is removed for good by purgeTrashedProducts
+export async function trashProduct(query: FilterQuery<ProductDocument>) {
+  return ProductModel.findOneAndUpdate(
+    { ...query, deletedAt: null },
+    { $set: { deletedAt: new Date() }, $inc: { __v: 1 } },
+    { new: true, lean: true }
+  );
+}
+
+export async function restoreProduct(query: FilterQuery<ProductDocument>) {
+  return ProductModel.findOneAndUpdate(
+    { ...query, deletedAt: { $ne: null } },
+    { $set: { deletedAt: null }, $inc: { __v: 1 } },
+    { new: true, lean: true }
+  );
+}
+
+// Stock is only changed by the functions below. Each one is a single
+// conditional update, so concurrent requests can never take the available
+// quantity (stock - reserved) below zero
+
+// Products created before stock was tracked don't have the fields
+const stockField = { $ifNull: ["$stock", 0] };
+const reservedField = { $ifNull: ["$reserved", 0] };
+const available = { $subtract: [stockField, reservedField] };
+
+// Sets the stock, or changes it by adjustment, as long as it stays at or above
+// the reserved quantity. Null when the product doesn't exist or it wouldn't
+export async function adjustStock(
+  query: FilterQuery<ProductDocument>,
+  change: { stock: number } | { adjustment: number }
+) {
+  const stock =
+    "stock" in change
+      ? change.stock
+      : { $add: [stockField, change.adjustment] };
+
+  return ProductModel.findOneAndUpdate(
+    {
+      ...query,
+      deletedAt: null,
+      $expr: { $gte: [stock, reservedField] },
+    },
+    "stock" in change
+      ? { $set: { stock: change.stock }, $inc: { __v: 1 } }
+      : { $inc: { stock: change.adjustment, __v: 1 } },
+    { new: true, lean: true }
+  );
+}
+
+// Holds quantity units of the product until the reservation is committed,
+// released or expires. Null when not enough units are available
+export async function reserveStock(
+  productId: string,
+  { quantity, user }: { quantity: number; user: UserDocument["_id"] }
+) {
+  const metricsLabels = {
+    operation: "reserveStock",
+  };
+
+  const timer = databaseResponseTimeHistogram.startTimer();
+  try {
+    const product = await ProductModel.findOneAndUpdate(
+      { productId, deletedAt: null, $expr: { $gte: [available, quantity] } },
+      { $inc: { reserved: quantity, __v: 1 } }
+    );
+
+    if (!product) {
+      timer({ ...metricsLabels, success: "true" });
+      return null;
+    }
+
+    try {
+      const reservation = await ReservationModel.create({
+        product: productId,
+        user,
+        quantity,
+        expiresAt: new Date(
+          Date.now() + config.get<number>("inventory.reservationTtl") * 1000
+        ),
+      });
+      timer({ ...metricsLabels, success: "true" });
+      return reservation;
+    } catch (e) {
+      // Give the units back, nothing holds them
+      await ProductModel.updateOne(
+        { productId },
+        { $inc: { reserved: -quantity, __v: 1 } }
+      );
+      throw e;
+    }
+  } catch (e) {
+    timer({ ...metricsLabels, success: "false" });
+    throw e;
+  }
 }
 
-export async function deleteProduct(query: FilterQuery<ProductDocument>) {
-  return ProductModel.deleteOne(query);
+// The units the user holds in active reservations, including the ones held
+// for their unpaid orders
+export async function findReservedQuantity(user: UserDocument["_id"]) {
+  const [reserved] = await ReservationModel.aggregate<{ quantity: number }>([
+    // Aggregations don't cast, and the user id comes from the token as a string
+    {
+      $match: {
+        user: new mongoose.Types.ObjectId(String(user)),
+        status: "active",
+      },
+    },
+    { $group: { _id: null, quantity: { $sum: "$quantity" } } },
+  ]);
+
+  return reserved?.quantity ?? 0;
+}
+
+// Moves an active reservation to its final status and updates the product.
+// The status changes first, so a reservation can only be finished once
+async function finishReservation(
+  query: FilterQuery<ReservationDocument>,
+  status: "released" | "committed" | "expired"
+) {
+  const reservation = await ReservationModel.findOneAndUpdate(
+    {
+      ...query,
+      status: "active",
+      // Expired reservations can't be committed, even before
+      // expireReservations has released them
+      ...(status === "committed" && { expiresAt: { $gt: new Date() } }),
+    },
+    { $set: { status } },
+    { new: true, lean: true }
+  );
+
+  if (!reservation) return null;
+
+  const quantity = reservation.quantity;
+
+  await ProductModel.updateOne(
+    { productId: reservation.product },
+    status === "committed"
+      ? { $inc: { stock: -quantity, reserved: -quantity, __v: 1 } }
+      : { $inc: { reserved: -quantity, __v: 1 } }
+  );
+
+  return reservation;
+}
+
+// Null when the reservation isn't active anymore
+export async function releaseReservation(reservationId: string) {
+  return finishReservation({ reservationId }, "released");
+}
+
+// Takes the reserved units out of stock, only when the order holding them is
+// paid. Null when the reservation isn't active anymore, or has expired
+export async function commitReservation(reservationId: string) {
+  return finishReservation({ reservationId }, "committed");
+}
+
+// Gives the units of every reservation past its expiry back, returns how many
+// reservations expired
+export async function expireReservations(now = new Date()) {
+  const expired = await ReservationModel.find(
+    { status: "active", expiresAt: { $lte: now } },
+    { reservationId: 1 }
+  ).lean();
+
+  const finished = await Promise.all(
+    expired.map(({ reservationId }) =>
+      finishReservation({ reservationId }, "expired")
+    )
+  );
+
+  return finished.filter(Boolean).length;
+}
+
+export async function findReservation(
+  query: FilterQuery<ReservationDocument>,
+  options: QueryOptions = { lean: true }
+) {
+  return ReservationModel.findOne(query, {}, options);
+}
+
+// Replaces the product's image with the uploaded files
+export async function setProductImage(
+  query: FilterQuery<ProductDocument>,
+  files: ProductImageFile[]
+) {
+  const original = files.find((file) => file.name === "original");
+
+  return ProductModel.findOneAndUpdate(
+    { deletedAt: null, ...query },
+    { $set: { image: original?.url, imageFiles: files }, $inc: { __v: 1 } },
+    { new: true, lean: true }
+  );
+}
+
+export async function purgeTrashedProducts(deletedBefore: Date) {
+  const metricsLabels = {
+    operation: "purgeTrashedProducts",
+  };
+
+  const timer = databaseResponseTimeHistogram.startTimer();
+  try {
+    const result = await deleteProducts({
+      deletedAt: { $ne: null, $lte: deletedBefore },
+    });
+    timer({ ...metricsLabels, success: "true" });
+    return result;
+  } catch (e) {
+    timer({ ...metricsLabels, success: "false" });
+    throw e;
+  }
+}
+
+// Removes the products for good, along with their uploaded images
+export async function deleteProducts(query: FilterQuery<ProductDocument>) {
+  const products = await ProductModel.find(query, { imageFiles: 1 }).lean();
+
+  await Promise.all(
+    products.map((product) => removeProductImageFiles(product.imageFiles))
+  );
+
+  return ProductModel.deleteMany({
+    _id: { $in: products.map((product) => product._id) },
+  });
 }
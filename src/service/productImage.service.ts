@@ -0,0 +1,67 @@
+import { nanoid } from "nanoid";
+import { ProductImageFile } from "../models/product.model";
+import { processImage } from "../utils/images";
+import { getLogger } from "../utils/requestContext";
+import { getStorage } from "../utils/storage";
+
+const extensions: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+// Resizes the image and stores the original and its thumbnails, every upload
+// gets its own prefix so replacing an image never overwrites a file in use
+export async function storeProductImage(
+  productId: string,
+  input: Buffer
+): Promise<ProductImageFile[]> {
+  const variants = await processImage(input);
+  const storage = getStorage();
+  const prefix = `products/${productId}/${nanoid(12)}`;
+
+  const files = variants.map((variant) => {
+    const key = `${prefix}/${variant.name}.${extensions[variant.contentType]}`;
+
+    return {
+      name: variant.name,
+      key,
+      url: storage.url(key),
+      contentType: variant.contentType,
+      width: variant.width,
+      height: variant.height,
+      size: variant.body.length,
+    };
+  });
+
+  try {
+    await Promise.all(
+      variants.map((variant, i) =>
+        storage.put(files[i].key, variant.body, variant.contentType)
+      )
+    );
+  } catch (e) {
+    await removeProductImageFiles(files);
+    throw e;
+  }
+
+  return files;
+}
+
+// Failing to delete a file is logged, it never fails the request
+export async function removeProductImageFiles(files: ProductImageFile[] = []) {
+  const storage = getStorage();
+
+  await Promise.all(
+    files.map(async (file) => {
+      try {
+        await storage.delete(file.key);
+      } catch (e: any) {
+        getLogger().error(
+          { err: e, key: file.key },
+          "Could not delete image file"
+        );
+      }
+    })
+  );
+}
@@ -1,8 +1,14 @@
-import { get } from "lodash";
+import { get, omit } from "lodash";
 import config from "config";
+import dayjs from "dayjs";
 import { FilterQuery, UpdateQuery } from "mongoose";
-import SessionModel, { SessionDocument } from "../models/session.model";
+import SessionModel, {
+  SessionDocument,
+  generateRefreshTokenId,
+} from "../models/session.model";
 import { verifyJwt, signJwt } from "../utils/jwt.utils";
+import { getLogger } from "../utils/requestContext";
+import { permissionsFor, Role } from "../utils/permissions";
 import { findUser } from "./user.service";
 
 export async function createSession(userId: string, userAgent: string) {
@@ -22,28 +28,108 @@ export async function updateSession(
   return SessionModel.updateOne(query, update);
 }
 
-export async function reIssueAccessToken({
+export async function invalidateSessions(query: FilterQuery<SessionDocument>) {
+  return SessionModel.updateMany(query, { valid: false });
+}
+
+export async function deleteSessions(query: FilterQuery<SessionDocument>) {
+  return SessionModel.deleteMany(query);
+}
+
+export function signSessionTokens(
+  user: { role?: Role },
+  session: { _id: unknown; refreshTokenId: string }
+) {
+  const accessToken = signJwt(
+    { ...user, permissions: permissionsFor(user.role), session: session._id },
+    "accessTokenPrivateKey",
+    { expiresIn: config.get("accessTokenTtl") } // 15 minutes
+  );
+
+  const refreshToken = signJwt(
+    { ...user, session: session._id },
+    "refreshTokenPrivateKey",
+    {
+      expiresIn: config.get("refreshTokenTtl"), // 1 year
+      jwtid: session.refreshTokenId,
+    }
+  );
+
+  return { accessToken, refreshToken };
+}
+
+export async function reIssueTokens({
   refreshToken,
 }: {
   refreshToken: string;
-}) {
+}): Promise<ReturnType<typeof signSessionTokens> | false> {
   const { decoded } = verifyJwt(refreshToken, "refreshTokenPublicKey");
 
-  if (!decoded || !get(decoded, "session")) return false;
+  // Tokens issued before rotation existed have no jti, those have to log in again
+  if (!decoded || !get(decoded, "session") || !get(decoded, "jti")) {
+    return false;
+  }
 
-  const session = await SessionModel.findById(get(decoded, "session"));
+  const session = await SessionModel.findById(get(decoded, "session")).select(
+    "+refreshTokenId +previousRefreshTokenId"
+  );
 
   if (!session || !session.valid) return false;
 
+  const tokenId = get(decoded, "jti");
+
+  // Another request rotated this token a moment ago, typically a second tab
+  // refreshing at the same time. Hand out the token that replaced it.
+  const justRotated =
+    tokenId === session.previousRefreshTokenId &&
+    dayjs().diff(dayjs(session.rotatedAt), "second", true) <=
+      config.get<number>("refreshTokenGracePeriod");
+
+  // The token has a valid signature but has already been rotated, so someone
+  // is replaying an old token. Revoke the session so neither copy works.
+  if (tokenId !== session.refreshTokenId && !justRotated) {
+    await updateSession({ _id: session._id }, { valid: false });
+
+    getLogger().warn(
+      {
+        event: "refresh_token_reuse",
+        session: String(session._id),
+        user: String(session.user),
+      },
+      "Refresh token reuse detected, session revoked"
+    );
+
+    return false;
+  }
+
   const user = await findUser({ _id: session.user });
 
-  if (!user) return false;
+  if (!user || user.disabled) return false;
 
-  const accessToken = signJwt(
-    { ...user, session: session._id },
-    "accessTokenPrivateKey",
-    { expiresIn: config.get("accessTokenTtl") } // 15 minutes
+  if (justRotated) {
+    return signSessionTokens(omit(user, "password"), {
+      _id: session._id,
+      refreshTokenId: session.refreshTokenId,
+    });
+  }
+
+  const nextTokenId = generateRefreshTokenId();
+
+  // Only rotate if nobody else rotated this token in the meantime
+  const { modifiedCount } = await SessionModel.updateOne(
+    { _id: session._id, valid: true, refreshTokenId: tokenId },
+    {
+      refreshTokenId: nextTokenId,
+      previousRefreshTokenId: tokenId,
+      rotatedAt: new Date(),
+    }
   );
 
-  return accessToken;
+  // Lost the race, the next attempt finds the token that was just rotated
+  if (!modifiedCount) return reIssueTokens({ refreshToken });
+
+  return signSessionTokens(omit(user, "password"), {
+    _id: session._id,
+    refreshTokenId: nextTokenId,
+  });
 }
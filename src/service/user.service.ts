@@ -1,15 +1,24 @@
-import { FilterQuery } from "mongoose";
-import { omit } from "lodash";
+import { FilterQuery, UpdateQuery } from "mongoose";
+import { escapeRegExp, omit } from "lodash";
 import UserModel, { UserDocument, UserInput } from "../models/user.model";
+import {
+  afterCursor,
+  buildPage,
+  decodeCursor,
+  sortFor,
+} from "../utils/pagination";
+import { Role } from "../utils/permissions";
+
+export interface UserFilters {
+  q?: string;
+  role?: Role;
+  disabled?: boolean;
+}
 
 export async function createUser(input: UserInput) {
-  try {
-    const user = await UserModel.create(input);
+  const user = await UserModel.create(input);
 
-    return omit(user.toJSON(), "password");
-  } catch (e: any) {
-    throw new Error(e);
-  }
+  return omit(user.toJSON(), "password");
 }
 
 export async function validatePassword({
@@ -21,7 +30,7 @@ export async function validatePassword({
 }) {
   const user = await UserModel.findOne({ email });
 
-  if (!user) {
+  if (!user || user.disabled) {
     return false;
   }
 
@@ -35,3 +44,85 @@ export async function validatePassword({
 export async function findUser(query: FilterQuery<UserDocument>) {
   return UserModel.findOne(query).lean();
 }
+
+export async function findUsers(
+  { q, role, disabled }: UserFilters,
+  { cursor, limit }: { cursor?: string; limit: number }
+) {
+  const query: FilterQuery<UserDocument> = {};
+
+  if (q) {
+    const pattern = { $regex: escapeRegExp(q), $options: "i" };
+    query.$or = [{ email: pattern }, { name: pattern }];
+  }
+
+  if (role) query.role = role;
+  if (disabled !== undefined) query.disabled = disabled;
+
+  const decodedCursor = cursor ? decodeCursor(cursor) : null;
+
+  const pageQuery: FilterQuery<UserDocument> = decodedCursor
+    ? { $and: [query, afterCursor("createdAt", "desc", decodedCursor)] }
+    : query;
+
+  const [results, total] = await Promise.all([
+    UserModel.find(pageQuery)
+      .select("-password")
+      .sort(sortFor("createdAt", "desc"))
+      .limit(limit + 1)
+      .lean(),
+    UserModel.countDocuments(query),
+  ]);
+
+  return buildPage(results, limit, "createdAt", total);
+}
+
+export async function updateUser(
+  query: FilterQuery<UserDocument>,
+  update: UpdateQuery<UserDocument>
+) {
+  return UserModel.findOneAndUpdate(query, update, { new: true })
+    .select("-password")
+    .lean();
+}
+
+// Users created before emails were verified have no verified field. They are
+// treated as verified, so requiring verification doesn't lock them out. Only
+// touches users without the field, so running it again does nothing
+export async function verifyLegacyUsers() {
+  return UserModel.updateMany(
+    { verified: { $exists: false } },
+    { $set: { verified: true } }
+  );
+}
+
+export async function deleteUser(query: FilterQuery<UserDocument>) {
+  return UserModel.deleteOne(query);
+}
+
+export async function changePassword(
+  userId: string,
+  { currentPassword, password }: { currentPassword: string; password: string }
+) {
+  const user = await UserModel.findById(userId);
+
+  if (!user) return false;
+
+  const isValid = await user.comparePassword(currentPassword);
+
+  if (!isValid) return false;
+
+  return setPassword(userId, password);
+}
+
+export async function setPassword(userId: string, password: string) {
+  const user = await UserModel.findById(userId);
+
+  if (!user) return false;
+
+  // Hashed by the pre("save") hook
+  user.password = password;
+  await user.save();
+
+  return true;
+}
@@ -0,0 +1,277 @@
+import config from "config";
+import crypto from "crypto";
+import { FilterQuery, UpdateQuery } from "mongoose";
+import { nanoid } from "nanoid";
+import WebhookModel, {
+  WebhookDocument,
+  WebhookEvent,
+  WebhookInput,
+} from "../models/webhook.model";
+import WebhookDeliveryModel, {
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from "../models/webhookDelivery.model";
+import {
+  afterCursor,
+  buildPage,
+  decodeCursor,
+  sortFor,
+} from "../utils/pagination";
+import { getLogger } from "../utils/requestContext";
+import { signPayload } from "../utils/signatures";
+import { postWebhook } from "../utils/webhooks";
+import { webhookDeliveriesCounter } from "../utils/metrics";
+
+interface WebhookConfig {
+  // How many pending deliveries are sent at once
+  batchSize: number;
+  // How long an endpoint has to answer, in seconds
+  timeout: number;
+  // Deliveries are given up after this many attempts
+  maxAttempts: number;
+  // The wait before the first retry, it doubles with every attempt, in seconds
+  retryDelay: number;
+  maxRetryDelay: number;
+}
+
+export const webhookSignatureHeader = "x-webhook-signature";
+
+export async function createWebhook(input: WebhookInput) {
+  const webhook = await WebhookModel.create({
+    ...input,
+    secret: `whsec_${crypto.randomBytes(24).toString("hex")}`,
+  });
+
+  // The only time the secret is handed out
+  return webhook.toObject();
+}
+
+export async function findWebhook(query: FilterQuery<WebhookDocument>) {
+  return WebhookModel.findOne(query).lean();
+}
+
+export async function findWebhooks(query: FilterQuery<WebhookDocument>) {
+  return WebhookModel.find(query).sort({ createdAt: -1 }).lean();
+}
+
+export async function countWebhooks(query: FilterQuery<WebhookDocument>) {
+  return WebhookModel.countDocuments(query);
+}
+
+export async function updateWebhook(
+  query: FilterQuery<WebhookDocument>,
+  update: UpdateQuery<WebhookDocument>
+) {
+  return WebhookModel.findOneAndUpdate(query, update, {
+    new: true,
+    lean: true,
+  });
+}
+
+// Removes the webhooks and their delivery logs
+export async function deleteWebhooks(query: FilterQuery<WebhookDocument>) {
+  const webhooks = await WebhookModel.find(query).select("webhookId").lean();
+  const webhookIds = webhooks.map(({ webhookId }) => webhookId);
+
+  await WebhookDeliveryModel.deleteMany({ webhook: { $in: webhookIds } });
+
+  return WebhookModel.deleteMany({ webhookId: { $in: webhookIds } });
+}
+
+// Queues a delivery of the event for every active webhook subscribed to it.
+// Failing to queue is logged, it never fails the request
+export async function enqueueWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>
+) {
+  try {
+    const webhooks = await WebhookModel.find({ active: true, events: event })
+      .select("webhookId")
+      .lean();
+
+    if (!webhooks.length) return;
+
+    const eventId = `evt_${nanoid(16)}`;
+
+    const payload = JSON.stringify({
+      id: eventId,
+      type: event,
+      createdAt: new Date(),
+      data,
+    });
+
+    await WebhookDeliveryModel.insertMany(
+      webhooks.map(({ webhookId }) => ({
+        webhook: webhookId,
+        eventId,
+        event,
+        payload,
+      }))
+    );
+  } catch (e: any) {
+    getLogger().error({ err: e, event }, "Could not queue webhook deliveries");
+  }
+}
+
+export async function findWebhookDelivery(
+  query: FilterQuery<WebhookDeliveryDocument>
+) {
+  return WebhookDeliveryModel.findOne(query).lean();
+}
+
+export async function findWebhookDeliveries(
+  webhookId: string,
+  { status }: { status?: WebhookDeliveryStatus },
+  { cursor, limit }: { cursor?: string; limit: number }
+) {
+  const query: FilterQuery<WebhookDeliveryDocument> = { webhook: webhookId };
+
+  if (status) query.status = status;
+
+  const decodedCursor = cursor ? decodeCursor(cursor) : null;
+
+  const pageQuery: FilterQuery<WebhookDeliveryDocument> = decodedCursor
+    ? { $and: [query, afterCursor("createdAt", "desc", decodedCursor)] }
+    : query;
+
+  const [results, total] = await Promise.all([
+    WebhookDeliveryModel.find(pageQuery)
+      .sort(sortFor("createdAt", "desc"))
+      .limit(limit + 1)
+      .lean(),
+    WebhookDeliveryModel.countDocuments(query),
+  ]);
+
+  return buildPage(results, limit, "createdAt", total);
+}
+
+// Queues the same event again as a new delivery, the original keeps its log
+export async function replayWebhookDelivery(
+  delivery: Pick<
+    WebhookDeliveryDocument,
+    "deliveryId" | "webhook" | "eventId" | "event" | "payload"
+  >
+) {
+  const replay = await WebhookDeliveryModel.create({
+    webhook: delivery.webhook,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    payload: delivery.payload,
+    replayOf: delivery.deliveryId,
+  });
+
+  return replay.toObject();
+}
+
+// Sends the deliveries that are due, returns how many were attempted
+export async function sendDueWebhookDeliveries() {
+  const { batchSize, timeout } = config.get<WebhookConfig>("webhooks");
+
+  const deliveries: WebhookDeliveryDocument[] = [];
+
+  // Each delivery is leased for longer than sending it can take, so other
+  // instances skip it, and it is retried if this one stops half way
+  while (deliveries.length < batchSize) {
+    const now = new Date();
+
+    const delivery = await WebhookDeliveryModel.findOneAndUpdate(
+      { status: "pending", nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + timeout * 2000) } },
+      { sort: { nextAttemptAt: 1 }, new: true, lean: true }
+    );
+
+    if (!delivery) break;
+
+    deliveries.push(delivery);
+  }
+
+  await Promise.all(deliveries.map(sendWebhookDelivery));
+
+  return deliveries.length;
+}
+
+// 30s, 1m, 2m, 4m... up to the maximum
+function retryDelay(attempts: number) {
+  const { retryDelay, maxRetryDelay } = config.get<WebhookConfig>("webhooks");
+
+  return Math.min(retryDelay * Math.pow(2, attempts - 1), maxRetryDelay);
+}
+
+async function sendWebhookDelivery(delivery: WebhookDeliveryDocument) {
+  const { timeout, maxAttempts } = config.get<WebhookConfig>("webhooks");
+
+  const webhook = await WebhookModel.findOne({ webhookId: delivery.webhook })
+    .select("+secret")
+    .lean();
+
+  const attemptedAt = new Date();
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  if (!webhook) {
+    error = "The webhook has been removed";
+  } else if (!webhook.active) {
+    error = "The webhook is inactive";
+  } else {
+    try {
+      const response = await postWebhook(
+        webhook.url,
+        delivery.payload,
+        {
+          "User-Agent": "rest-api-webhooks",
+          "X-Webhook-Event": delivery.event,
+          "X-Webhook-Delivery": delivery.deliveryId,
+          // Signed at every attempt, receivers can refuse old signatures
+          [webhookSignatureHeader]: signPayload(
+            webhook.secret,
+            delivery.payload
+          ),
+        },
+        {
+          timeout: timeout * 1000,
+          allowPrivateAddresses: config.get<boolean>(
+            "webhooks.allowPrivateUrls"
+          ),
+        }
+      );
+
+      responseStatus = response.status;
+
+      if (response.status < 200 || response.status >= 300) {
+        error = `Responded with ${response.status}`;
+      }
+    } catch (e: any) {
+      error = e.message;
+    }
+  }
+
+  const attempts = delivery.attempts.length + 1;
+
+  const status: WebhookDeliveryStatus = !error
+    ? "succeeded"
+    : webhook?.active && attempts < maxAttempts
+    ? "pending"
+    : "failed";
+
+  await WebhookDeliveryModel.updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status,
+        nextAttemptAt: new Date(
+          attemptedAt.getTime() + retryDelay(attempts) * 1000
+        ),
+      },
+      $push: {
+        attempts: {
+          attemptedAt,
+          responseStatus,
+          error,
+          duration: Date.now() - attemptedAt.getTime(),
+        },
+      },
+    }
+  );
+
+  webhookDeliveriesCounter.inc({ event: delivery.event, status });
+}
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+
+// Express 4 doesn't catch rejected promises, this passes them on to the error
+// handler instead of leaving the request hanging
+function asyncHandler<P, ResBody, ReqBody, ReqQuery>(
+  handler: (
+    req: Request<P, ResBody, ReqBody, ReqQuery>,
+    res: Response<ResBody>,
+    next: NextFunction
+  ) => Promise<unknown>
+): RequestHandler<P, ResBody, ReqBody, ReqQuery> {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+export default asyncHandler;
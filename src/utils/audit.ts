@@ -0,0 +1,11 @@
+import { Request, Response } from "express";
+
+// Who made the request and from where, recorded with every audit event
+export function auditContext(req: Pick<Request, "ip" | "get">, res: Response) {
+  return {
+    actor: res.locals.user?._id,
+    ip: req.ip,
+    userAgent: req.get("user-agent"),
+    requestId: res.locals.requestId,
+  };
+}
@@ -0,0 +1,48 @@
+import { Request, Response } from "express";
+import config from "config";
+import jwt from "jsonwebtoken";
+
+export function getCookie(req: Request, name: string) {
+  const header = req.headers.cookie;
+
+  if (!header) return undefined;
+
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+
+    if (index < 0) continue;
+
+    if (pair.slice(0, index).trim() !== name) continue;
+
+    try {
+      return decodeURIComponent(pair.slice(index + 1).trim());
+    } catch (e) {
+      // Malformed percent-encoding, skip the pair instead of failing the request
+    }
+  }
+
+  return undefined;
+}
+
+const refreshTokenCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "strict" as const,
+  path: "/api/sessions",
+};
+
+export function setRefreshTokenCookie(res: Response, refreshToken: string) {
+  const exp = (jwt.decode(refreshToken) as jwt.JwtPayload | null)?.exp;
+
+  res.cookie(config.get<string>("refreshTokenCookieName"), refreshToken, {
+    ...refreshTokenCookieOptions,
+    ...(exp && { expires: new Date(exp * 1000) }),
+  });
+}
+
+export function clearRefreshTokenCookie(res: Response) {
+  res.clearCookie(
+    config.get<string>("refreshTokenCookieName"),
+    refreshTokenCookieOptions
+  );
+}
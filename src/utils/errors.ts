@@ -0,0 +1,103 @@
+// Errors thrown by handlers, middleware and services. The error handler turns
+// them into application/problem+json responses (RFC 7807).
+export class AppError extends Error {
+  status: number;
+  title: string;
+  detail?: string;
+  // Extra members added to the problem body, e.g. validation errors
+  extensions?: Record<string, unknown>;
+
+  constructor(
+    status: number,
+    title: string,
+    detail?: string,
+    extensions?: Record<string, unknown>
+  ) {
+    super(detail || title);
+    // Needed for instanceof checks when compiling to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = status;
+    this.title = title;
+    this.detail = detail;
+    this.extensions = extensions;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(detail?: string, extensions?: Record<string, unknown>) {
+    super(400, "Bad Request", detail, extensions);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(errors: unknown[]) {
+    super(400, "Validation Failed", "The request is invalid", { errors });
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(detail?: string) {
+    super(401, "Unauthorized", detail);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(detail?: string) {
+    super(403, "Forbidden", detail);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(detail?: string) {
+    super(404, "Not Found", detail);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(detail?: string) {
+    super(409, "Conflict", detail);
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(detail?: string) {
+    super(412, "Precondition Failed", detail);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(detail?: string) {
+    super(413, "Payload Too Large", detail);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(detail?: string) {
+    super(415, "Unsupported Media Type", detail);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(detail?: string) {
+    super(422, "Unprocessable Entity", detail);
+  }
+}
+
+export class LockedError extends AppError {
+  retryAfter: number;
+
+  constructor(detail: string, retryAfter: number) {
+    super(423, "Locked", detail);
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  retryAfter: number;
+
+  constructor(detail: string, retryAfter: number) {
+    super(429, "Too Many Requests", detail);
+    this.retryAfter = retryAfter;
+  }
+}
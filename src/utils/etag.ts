@@ -0,0 +1,18 @@
+// Strong ETag for a document, derived from its version key (__v)
+export function versionETag(document: { __v?: number }) {
+  return `"${document.__v || 0}"`;
+}
+
+// Whether an If-Match or If-None-Match header matches the ETag. If-None-Match
+// uses the weak comparison, where W/"1" matches "1", If-Match the strong one.
+export function matchesETag(header: string, etag: string, weak = false) {
+  if (header.trim() === "*") return true;
+
+  return header
+    .split(",")
+    .map((candidate) => candidate.trim())
+    .some(
+      (candidate) =>
+        candidate === etag || (weak && candidate.replace(/^W\//, "") === etag)
+    );
+}
@@ -0,0 +1,68 @@
+import { escape, escapeRegExp, uniq } from "lodash";
+
+// Lowercase words of at least two characters, the last character of longer
+// words is dropped so a typo at the end ("camerq") or a different ending
+// ("cameras") still matches as a prefix
+export function searchPrefixes(q: string) {
+  const words = q
+    .toLowerCase()
+    .split(/[^\w]+/)
+    .filter((word) => word.length >= 2);
+
+  return uniq(
+    words.map((word) => (word.length > 4 ? word.slice(0, -1) : word))
+  ).slice(0, 10);
+}
+
+// The distinct lowercase words of the texts, stored on products so prefix
+// searches can use an index
+export function searchWords(...texts: string[]) {
+  return uniq(
+    texts
+      .join(" ")
+      .toLowerCase()
+      .split(/[^\w]+/)
+      .filter((word) => word.length >= 2)
+  );
+}
+
+export function prefixPattern(prefixes: string[], flags = "i") {
+  return new RegExp(
+    `\\b(?:${prefixes.map(escapeRegExp).join("|")})\\w*`,
+    flags
+  );
+}
+
+// Returns an HTML snippet of the text, at most maxLength characters around the
+// first match, with the matching words wrapped in <mark>. Null when nothing
+// matches, e.g. when the text index matched a different form of the word
+export function highlight(text: string, prefixes: string[], maxLength = 160) {
+  if (!prefixes.length) return null;
+
+  const pattern = prefixPattern(prefixes, "gi");
+  const first = text.search(pattern);
+
+  if (first === -1) return null;
+
+  // Leave some context before the first match
+  const start =
+    text.length <= maxLength
+      ? 0
+      : Math.max(0, Math.min(first - 40, text.length - maxLength));
+  const end = Math.min(text.length, start + maxLength);
+  const snippet = text.slice(start, end);
+
+  let html = "";
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(snippet))) {
+    html += escape(snippet.slice(position, match.index));
+    html += `<mark>${escape(match[0])}</mark>`;
+    position = match.index + match[0].length;
+  }
+
+  html += escape(snippet.slice(position));
+
+  return `${start > 0 ? "…" : ""}${html}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,76 @@
+import config from "config";
+import sharp from "sharp";
+import { UnsupportedMediaTypeError } from "./errors";
+
+export interface ImageVariant {
+  // "original", or the name of the thumbnail size in config
+  name: string;
+  body: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+const contentTypes: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+// The uploaded Content-Type is only a hint, this checks the file itself
+async function detectContentType(input: Buffer) {
+  try {
+    const { format } = await sharp(input).metadata();
+    return format ? contentTypes[format] : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// Returns the original, rotated to match its EXIF orientation and without
+// its metadata, followed by a WebP thumbnail for each configured size
+export async function processImage(input: Buffer): Promise<ImageVariant[]> {
+  const contentType = await detectContentType(input);
+
+  if (
+    !contentType ||
+    !config.get<string[]>("images.allowedTypes").includes(contentType)
+  ) {
+    throw new UnsupportedMediaTypeError("The file is not a supported image");
+  }
+
+  const original = await sharp(input)
+    .rotate()
+    .toBuffer({ resolveWithObject: true });
+
+  const sizes = config.get<Record<string, number>>("images.thumbnails");
+
+  const thumbnails = await Promise.all(
+    Object.keys(sizes).map(async (name) => {
+      const { data, info } = await sharp(input)
+        .rotate()
+        .resize({ width: sizes[name], withoutEnlargement: true })
+        .webp()
+        .toBuffer({ resolveWithObject: true });
+
+      return {
+        name,
+        body: data,
+        contentType: "image/webp",
+        width: info.width,
+        height: info.height,
+      };
+    })
+  );
+
+  return [
+    {
+      name: "original",
+      body: original.data,
+      contentType,
+      width: original.info.width,
+      height: original.info.height,
+    },
+    ...thumbnails,
+  ];
+}
@@ -0,0 +1,82 @@
+import { isEqual } from "lodash";
+import { BadRequestError, ConflictError } from "./errors";
+
+// RFC 6902 JSON Patch, limited to the top level members of a document, which
+// is all a flat resource like a product has
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+function memberName(pointer: string | undefined, allowed: string[]) {
+  if (pointer === undefined || !/^\/[^/]+$/.test(pointer)) {
+    throw new BadRequestError(`Unsupported JSON pointer: ${pointer}`);
+  }
+
+  const name = pointer.slice(1).replace(/~1/g, "/").replace(/~0/g, "~");
+
+  if (!allowed.includes(name)) {
+    throw new BadRequestError(`${name} can't be changed`);
+  }
+
+  return name;
+}
+
+export function applyJsonPatch<T extends Record<string, unknown>>(
+  document: T,
+  operations: JsonPatchOperation[],
+  allowed: string[]
+): T {
+  const result: Record<string, unknown> = { ...document };
+
+  operations.forEach((operation) => {
+    const path = memberName(operation.path, allowed);
+
+    // JSON has no undefined, so it means the value is missing
+    if (
+      ["add", "replace", "test"].includes(operation.op) &&
+      operation.value === undefined
+    ) {
+      throw new BadRequestError(`${operation.op} requires a value`);
+    }
+
+    switch (operation.op) {
+      case "add":
+        result[path] = operation.value;
+        break;
+      case "replace":
+        if (!(path in result)) {
+          throw new BadRequestError(`${path} does not exist`);
+        }
+        result[path] = operation.value;
+        break;
+      case "remove":
+        if (!(path in result)) {
+          throw new BadRequestError(`${path} does not exist`);
+        }
+        delete result[path];
+        break;
+      case "move":
+      case "copy": {
+        const from = memberName(operation.from, allowed);
+
+        if (!(from in result)) {
+          throw new BadRequestError(`${from} does not exist`);
+        }
+
+        result[path] = result[from];
+        if (operation.op === "move" && from !== path) delete result[from];
+        break;
+      }
+      case "test":
+        if (!isEqual(result[path], operation.value)) {
+          throw new ConflictError(`Test failed for ${path}`);
+        }
+        break;
+    }
+  });
+
+  return result as T;
+}
@@ -1,8 +1,12 @@
 import logger from "pino";
 import dayjs from "dayjs";
 
+// Pretty output is for reading in a terminal, everywhere else log JSON lines
+const pretty = (process.env.NODE_ENV || "development") === "development";
+
 const log = logger({
-  prettyPrint: true,
+  prettyPrint: pretty,
+  level: process.env.LOG_LEVEL || "info",
   base: {
     pid: false,
   },
@@ -0,0 +1,152 @@
+import LoginAttemptModel from "../models/loginAttempt.model";
+
+export interface LoginAttempt {
+  failures: number;
+  lastFailureAt?: Date;
+  lockedUntil?: Date;
+}
+
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttempt | null>;
+  // Atomically counts an attempt as a failure, starting over if the record
+  // has expired. Resolves with the record as it was before, so concurrent
+  // attempts each see the ones counted before them
+  countAttempt(key: string, expiresAt: Date): Promise<LoginAttempt | null>;
+  // Takes back an attempt counted by countAttempt
+  uncountAttempt(key: string): Promise<void>;
+  // Locks the key until `until` and starts counting failures from zero again
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+interface StoredAttempt extends LoginAttempt {
+  expiresAt: Date;
+}
+
+// Only works for a single instance, attempts are lost on restart
+export function memoryLoginAttemptStore(): LoginAttemptStore {
+  const attempts = new Map<string, StoredAttempt>();
+
+  function current(key: string) {
+    const attempt = attempts.get(key);
+
+    if (attempt && attempt.expiresAt <= new Date()) {
+      attempts.delete(key);
+      return undefined;
+    }
+
+    return attempt;
+  }
+
+  return {
+    async get(key) {
+      const attempt = current(key);
+
+      return attempt ? { ...attempt } : null;
+    },
+
+    async countAttempt(key, expiresAt) {
+      const previous = current(key);
+      const attempt = previous ? { ...previous } : { failures: 0, expiresAt };
+
+      attempt.failures += 1;
+      attempt.lastFailureAt = new Date();
+      if (expiresAt > attempt.expiresAt) attempt.expiresAt = expiresAt;
+
+      attempts.set(key, attempt);
+
+      return previous ? { ...previous } : null;
+    },
+
+    async uncountAttempt(key) {
+      const attempt = current(key);
+
+      if (attempt && attempt.failures > 0) attempt.failures -= 1;
+    },
+
+    async lock(key, until) {
+      const attempt = current(key) || { failures: 0, expiresAt: until };
+
+      attempt.failures = 0;
+      attempt.lockedUntil = until;
+      if (until > attempt.expiresAt) attempt.expiresAt = until;
+
+      attempts.set(key, attempt);
+    },
+
+    async reset(key) {
+      attempts.delete(key);
+    },
+  };
+}
+
+// Shares attempts between all the instances behind the proxy
+export function mongoLoginAttemptStore(): LoginAttemptStore {
+  // The TTL monitor only runs every minute, so expired records can still exist
+  const notExpired = () => ({ expiresAt: { $gt: new Date() } });
+
+  async function removeExpired(key: string) {
+    await LoginAttemptModel.deleteOne({
+      key,
+      expiresAt: { $lte: new Date() },
+    });
+  }
+
+  async function countAttempt(
+    key: string,
+    expiresAt: Date,
+    retry = true
+  ): Promise<LoginAttempt | null> {
+    await removeExpired(key);
+
+    try {
+      // Without the new option the record from before the update is returned
+      return await LoginAttemptModel.findOneAndUpdate(
+        { key },
+        {
+          $inc: { failures: 1 },
+          $set: { lastFailureAt: new Date() },
+          $max: { expiresAt },
+        },
+        { upsert: true, new: false }
+      ).lean();
+    } catch (e: any) {
+      // Two concurrent upserts for a new key, the other one won the insert
+      if (e.code === 11000 && retry) {
+        return countAttempt(key, expiresAt, false);
+      }
+
+      throw e;
+    }
+  }
+
+  return {
+    async get(key) {
+      return LoginAttemptModel.findOne({ key, ...notExpired() }).lean();
+    },
+
+    countAttempt: (key, expiresAt) => countAttempt(key, expiresAt),
+
+    async uncountAttempt(key) {
+      await LoginAttemptModel.updateOne(
+        { key, failures: { $gt: 0 } },
+        { $inc: { failures: -1 } }
+      );
+    },
+
+    async lock(key, until) {
+      await LoginAttemptModel.updateOne(
+        { key },
+        {
+          $set: { failures: 0, lockedUntil: until },
+          $max: { expiresAt: until },
+        },
+        { upsert: true }
+      );
+    },
+
+    async reset(key) {
+      await LoginAttemptModel.deleteOne({ key });
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import fs from "fs/promises";
+import path from "path";
+import config from "config";
+import nodemailer from "nodemailer";
+import { getLogger } from "./requestContext";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Logs messages instead of sending them, for local development. In
+// production only the recipient and subject are logged, the links in the
+// body would let anyone who can read the logs take over accounts
+export function consoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      if (process.env.NODE_ENV === "production") {
+        getLogger().warn(
+          { mail: { to: message.to, subject: message.subject } },
+          "Mail not sent, set MAIL_TRANSPORT to smtp"
+        );
+        return;
+      }
+
+      getLogger().info(
+        { mail: message },
+        `Mail to ${message.to}: ${message.subject}`
+      );
+    },
+  };
+}
+
+// Writes each message to a JSON file so tests and developers can read them
+export function fileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+
+      const fileName = `${Date.now()}-${message.to.replace(
+        /[^\w.@-]/g,
+        "_"
+      )}.json`;
+
+      await fs.writeFile(
+        path.join(directory, fileName),
+        JSON.stringify(message, null, 2)
+      );
+    },
+  };
+}
+
+export function smtpTransport(options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: Number(options.port),
+    secure: options.secure,
+    ...(options.user && {
+      auth: { user: options.user, pass: options.password },
+    }),
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+function createTransport(): MailTransport {
+  const transport = config.get<string>("mail.transport");
+
+  switch (transport) {
+    case "console":
+      return consoleTransport();
+    case "file":
+      return fileTransport(config.get<string>("mail.fileDirectory"));
+    case "smtp":
+      return smtpTransport(config.get("mail.smtp"));
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
+}
+
+// Called at startup, the file transport would keep every reset and
+// verification link on disk
+export function assertMailConfig() {
+  if (process.env.NODE_ENV !== "production") return;
+
+  if (config.get<string>("mail.transport") === "file") {
+    throw new Error("The file mail transport can't be used in production");
+  }
+}
+
+let transport: MailTransport | undefined;
+
+// Lets tests swap in their own transport
+export function setMailTransport(mailTransport: MailTransport) {
+  transport = mailTransport;
+}
+
+export async function sendMail(message: MailMessage) {
+  if (!transport) {
+    transport = createTransport();
+  }
+
+  return transport.send({ ...message, from: config.get<string>("mail.from") });
+}
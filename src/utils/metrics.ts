@@ -16,6 +16,18 @@ export const databaseResponseTimeHistogram = new client.Histogram({
   labelNames: ["operation", "success"],
 });
 
+export const rateLimitRejectionsCounter = new client.Counter({
+  name: "rate_limit_rejections_total",
+  help: "Requests rejected by the rate limiter",
+  labelNames: ["policy", "method", "route"],
+});
+
+export const webhookDeliveriesCounter = new client.Counter({
+  name: "webhook_delivery_attempts_total",
+  help: "Webhook delivery attempts by the status they left the delivery in",
+  labelNames: ["event", "status"],
+});
+
 export function startMetricsServer() {
   const collectDefaultMetrics = client.collectDefaultMetrics;
 
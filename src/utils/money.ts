@@ -0,0 +1,29 @@
+// ISO 4217 codes in use, e.g. USD or JPY. Listed here as Intl.supportedValuesOf
+// needs Node 18
+const currencyCodes = `
+  AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD
+  BIF BMD BND BOB BRL BSD BTN BWP BYN BZD CAD CDF CHF CLP CNY
+  COP CRC CUC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD
+  FKP GBP GEL GHS GIP GMD GNF GTQ GYD HKD HNL HRK HTG HUF IDR
+  ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW KWD
+  KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP
+  MRU MUR MVR MWK MXN MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB
+  PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG
+  SEK SGD SHP SLE SLL SOS SRD SSP STN SVC SYP SZL THB TJS TMT
+  TND TOP TRY TTD TWD TZS UAH UGX USD UYU UZS VES VND VUV WST
+  XAF XCD XCG XDR XOF XPF XSU YER ZAR ZMW ZWG ZWL
+`
+  .trim()
+  .split(/\s+/);
+
+export function isCurrencyCode(code: string) {
+  return currencyCodes.includes(code);
+}
+
+// Digits after the decimal point of the currency, e.g. 2 for USD and 0 for JPY
+export function minorUnitDigits(currency: string) {
+  return new Intl.NumberFormat("en", {
+    style: "currency",
+    currency,
+  }).resolvedOptions().maximumFractionDigits;
+}
@@ -0,0 +1,87 @@
+import { FilterQuery } from "mongoose";
+
+export type SortOrder = "asc" | "desc";
+
+export interface Cursor {
+  value: unknown;
+  id: string;
+}
+
+export interface CursorPage<T> {
+  data: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export function encodeCursor({ value, id }: Cursor) {
+  return Buffer.from(JSON.stringify([value, String(id)])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+    const [value, id] = decoded;
+
+    if (typeof id !== "string" || !/^[0-9a-f]{24}$/.test(id)) return null;
+
+    return { value, id };
+  } catch (e) {
+    return null;
+  }
+}
+
+// Matches the documents that come after the cursor when sorting by
+// `sortField` and then `_id` as a tie breaker
+export function afterCursor<T>(
+  sortField: string,
+  order: SortOrder,
+  cursor: Cursor
+): FilterQuery<T> {
+  const operator = order === "asc" ? "$gt" : "$lt";
+
+  if (sortField === "_id") {
+    return { _id: { [operator]: cursor.id } } as FilterQuery<T>;
+  }
+
+  return {
+    $or: [
+      { [sortField]: { [operator]: cursor.value } },
+      { [sortField]: cursor.value, _id: { [operator]: cursor.id } },
+    ],
+  } as FilterQuery<T>;
+}
+
+export function sortFor(sortField: string, order: SortOrder) {
+  const direction = order === "asc" ? 1 : -1;
+
+  if (sortField === "_id") {
+    return { _id: direction } as Record<string, 1 | -1>;
+  }
+
+  return { [sortField]: direction, _id: direction } as Record<string, 1 | -1>;
+}
+
+export function buildPage<T extends { _id: unknown }>(
+  results: T[],
+  limit: number,
+  sortField: string,
+  total: number
+): CursorPage<T> {
+  const data = results.slice(0, limit);
+  const last = data[data.length - 1];
+
+  const nextCursor =
+    results.length > limit && last
+      ? encodeCursor({
+          value: (last as Record<string, unknown>)[sortField],
+          id: String(last._id),
+        })
+      : null;
+
+  return { data, nextCursor, total };
+}
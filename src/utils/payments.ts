@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import config from "config";
+import { signPayload, verifySignature } from "./signatures";
+
+export interface PaymentIntent {
+  // The provider's id for the payment
+  id: string;
+  // Handed to the client to complete the payment with the provider
+  clientSecret: string;
+}
+
+export interface PaymentEvent {
+  // Providers may send an event more than once, it is only handled once
+  id: string;
+  type: "payment.succeeded" | "payment.failed";
+  intentId: string;
+  // In minor units
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent(input: {
+    amount: number;
+    currency: string;
+    // The orderId, so the payment can be found in the provider's dashboard
+    reference: string;
+  }): Promise<PaymentIntent>;
+  // Refunding an intent that was already refunded does nothing
+  refund(intentId: string): Promise<void>;
+  // Null when the signature doesn't match or the body isn't an event
+  parseWebhook(
+    body: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): PaymentEvent | null;
+}
+
+export const fakeSignatureHeader = "x-fake-payments-signature";
+
+// Runs in the process and never talks to a vendor, for development and tests.
+// Payments are completed by sending a signed event, see fakePaymentEvent
+export function fakeProvider(options: {
+  webhookSecret: string;
+  signatureTolerance: number;
+}): PaymentProvider {
+  return {
+    name: "fake",
+    async createIntent() {
+      // Every attempt gets its own intent, like a real provider, so an order
+      // can be paid again after a failed payment
+      const id = `pi_fake_${crypto.randomBytes(12).toString("hex")}`;
+
+      return { id, clientSecret: `${id}_secret` };
+    },
+    async refund() {
+      // Nothing was taken
+    },
+    parseWebhook(body, headers) {
+      const signature = headers[fakeSignatureHeader];
+
+      if (
+        typeof signature !== "string" ||
+        !verifySignature(
+          signature,
+          body,
+          options.webhookSecret,
+          options.signatureTolerance
+        )
+      ) {
+        return null;
+      }
+
+      try {
+        const event = JSON.parse(body.toString("utf8"));
+
+        if (
+          typeof event.id !== "string" ||
+          !["payment.succeeded", "payment.failed"].includes(event.type) ||
+          typeof event.intentId !== "string" ||
+          !Number.isInteger(event.amount) ||
+          typeof event.currency !== "string"
+        ) {
+          return null;
+        }
+
+        return event;
+      } catch (e) {
+        return null;
+      }
+    },
+  };
+}
+
+// The signed webhook the fake provider would send for the intent. The event id
+// only depends on the intent and the outcome, so sending it twice is a replay
+export function fakePaymentEvent(
+  intent: { id: string; amount: number; currency: string },
+  type: PaymentEvent["type"]
+) {
+  const body = JSON.stringify({
+    id: `evt_${intent.id}_${type.replace("payment.", "")}`,
+    type,
+    intentId: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
+  });
+
+  return {
+    body,
+    headers: {
+      [fakeSignatureHeader]: signPayload(
+        config.get<string>("payments.webhookSecret"),
+        body
+      ),
+    },
+  };
+}
+
+export function paymentsEnabled() {
+  return config.get<string>("payments.provider") !== "disabled";
+}
+
+// The fake provider lets anyone complete a payment, it is never used in
+// production
+export function fakePaymentsEnabled() {
+  return (
+    process.env.NODE_ENV !== "production" &&
+    config.get<string>("payments.provider") === "fake"
+  );
+}
+
+// Called at startup, refuses production settings that would let anyone mark
+// orders as paid
+export function assertPaymentConfig() {
+  if (process.env.NODE_ENV !== "production" || !paymentsEnabled()) return;
+
+  const { provider, webhookSecret } = config.get<{
+    provider: string;
+    webhookSecret: string;
+  }>("payments");
+
+  if (provider === "fake") {
+    throw new Error("The fake payment provider can't be used in production");
+  }
+
+  // "change-me" is the placeholder in config/default.ts
+  if (!webhookSecret || webhookSecret === "change-me") {
+    throw new Error("PAYMENT_WEBHOOK_SECRET must be set in production");
+  }
+}
+
+function createProvider(): PaymentProvider {
+  const provider = config.get<string>("payments.provider");
+
+  switch (provider) {
+    case "fake":
+      return fakeProvider(config.get("payments"));
+    case "disabled":
+      throw new Error("Payments are disabled");
+    default:
+      throw new Error(`Unknown payment provider: ${provider}`);
+  }
+}
+
+let provider: PaymentProvider | undefined;
+
+// Lets tests swap in their own provider
+export function setPaymentProvider(paymentProvider: PaymentProvider) {
+  provider = paymentProvider;
+}
+
+export function getPaymentProvider() {
+  if (!provider) {
+    provider = createProvider();
+  }
+
+  return provider;
+}
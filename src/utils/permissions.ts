@@ -0,0 +1,40 @@
+export const roles = ["user", "admin"] as const;
+
+export type Role = (typeof roles)[number];
+
+export const permissions = [
+  "products:moderate",
+  "categories:manage",
+  "orders:manage",
+  "webhooks:manage",
+  "users:read",
+  "users:manage",
+  "audit:read",
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+const rolePermissions: Record<Role, Permission[]> = {
+  user: [],
+  admin: [
+    "products:moderate",
+    "categories:manage",
+    "orders:manage",
+    "webhooks:manage",
+    "users:read",
+    "users:manage",
+    "audit:read",
+  ],
+};
+
+export function permissionsFor(role: Role = "user") {
+  return rolePermissions[role] || [];
+}
+
+// `user` is the decoded access token stored in res.locals.user
+export function hasPermission(
+  user: { permissions?: string[] } | undefined,
+  permission: Permission
+) {
+  return Boolean(user?.permissions?.includes(permission));
+}
@@ -0,0 +1,19 @@
+import config from "config";
+import log from "./logger";
+import { convertLegacyPrices } from "../service/product.service";
+
+// Runs at startup, before the routes are registered, so requests never see a
+// product without a currency
+export async function migrateLegacyPrices() {
+  const currency = config.get<string>("legacyPriceCurrency");
+
+  try {
+    const { modifiedCount } = await convertLegacyPrices(currency);
+
+    if (modifiedCount) {
+      log.info({ modifiedCount, currency }, "Converted legacy product prices");
+    }
+  } catch (e: any) {
+    log.error({ err: e }, "Could not convert legacy product prices");
+  }
+}
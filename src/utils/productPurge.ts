@@ -0,0 +1,35 @@
+import config from "config";
+import log from "./logger";
+import { purgeTrashedProducts } from "../service/product.service";
+
+interface ProductTrashConfig {
+  // How long deleted products can be restored for, in seconds
+  retention: number;
+  // How often the purge runs, in seconds
+  purgeInterval: number;
+}
+
+export async function purgeProducts() {
+  const { retention } = config.get<ProductTrashConfig>("productTrash");
+
+  const deletedBefore = new Date(Date.now() - retention * 1000);
+
+  try {
+    const { deletedCount } = await purgeTrashedProducts(deletedBefore);
+
+    if (deletedCount) {
+      log.info({ deletedCount }, "Purged products from the trash");
+    }
+  } catch (e: any) {
+    log.error({ err: e }, "Could not purge products from the trash");
+  }
+}
+
+export function startProductPurge() {
+  const { purgeInterval } = config.get<ProductTrashConfig>("productTrash");
+
+  purgeProducts();
+
+  // Doesn't keep the process alive on its own
+  setInterval(purgeProducts, purgeInterval * 1000).unref();
+}
@@ -0,0 +1,14 @@
+import { IncomingMessage } from "http";
+import { Request } from "express";
+
+type WithRawBody = IncomingMessage & { rawBody?: Buffer };
+
+// Passed as express.json's verify option, signatures are computed over the
+// body exactly as it was sent
+export function keepRawBody(req: IncomingMessage, res: unknown, buf: Buffer) {
+  (req as WithRawBody).rawBody = buf;
+}
+
+export function getRawBody(req: Request) {
+  return (req as WithRawBody).rawBody || Buffer.alloc(0);
+}
@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from "async_hooks";
+import log from "./logger";
+
+export interface RequestContext {
+  requestId: string;
+  // The authenticated user, if any
+  userId?: string;
+  logger: typeof log;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// The logger bound to the current request (request, user & session ids), or
+// the application logger outside of a request
+export function getLogger() {
+  return requestContext.getStore()?.logger || log;
+}
+
+// For code that records who made a change without being handed the request
+export function getRequestUserId() {
+  return requestContext.getStore()?.userId;
+}
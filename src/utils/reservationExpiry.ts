@@ -0,0 +1,25 @@
+import config from "config";
+import log from "./logger";
+import { expireReservations } from "../service/product.service";
+
+export async function releaseExpiredReservations() {
+  try {
+    const expired = await expireReservations();
+
+    if (expired) {
+      log.info({ expired }, "Released expired stock reservations");
+    }
+  } catch (e: any) {
+    log.error({ err: e }, "Could not release expired stock reservations");
+  }
+}
+
+export function startReservationExpiry() {
+  // How often expired reservations are released, in seconds
+  const interval = config.get<number>("inventory.expiryInterval");
+
+  releaseExpiredReservations();
+
+  // Doesn't keep the process alive on its own
+  setInterval(releaseExpiredReservations, interval * 1000).unref();
+}
@@ -0,0 +1,16 @@
+import log from "./logger";
+import { addMissingSearchWords } from "../service/product.service";
+
+// Runs at startup, before the routes are registered, so prefix searches find
+// products saved before they used the searchWords index
+export async function migrateSearchWords() {
+  try {
+    const updated = await addMissingSearchWords();
+
+    if (updated) {
+      log.info({ updated }, "Added search words to existing products");
+    }
+  } catch (e: any) {
+    log.error({ err: e }, "Could not add search words to existing products");
+  }
+}
@@ -0,0 +1,55 @@
+import crypto from "crypto";
+
+// Webhook bodies are signed with a shared secret, the header looks like
+// t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">. The timestamp is
+// signed too, so an old request can't be replayed
+function hmac(secret: string, timestamp: number, body: string | Buffer) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+}
+
+export function signPayload(
+  secret: string,
+  body: string | Buffer,
+  timestamp = Math.floor(Date.now() / 1000)
+) {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+// `tolerance` is how old the signature may be, in seconds
+export function verifySignature(
+  header: string | undefined,
+  body: string | Buffer,
+  secret: string,
+  tolerance: number
+) {
+  if (!header) return false;
+
+  const parts = header
+    .split(",")
+    .reduce<Record<string, string>>((parts, part) => {
+      const [key, value] = part.split("=");
+      return { ...parts, [key.trim()]: value };
+    }, {});
+
+  const timestamp = Number(parts.t);
+
+  if (
+    !Number.isInteger(timestamp) ||
+    !parts.v1 ||
+    Math.abs(Date.now() / 1000 - timestamp) > tolerance
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
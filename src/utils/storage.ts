@@ -0,0 +1,131 @@
+import fs from "fs/promises";
+import path from "path";
+import config from "config";
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+export interface Storage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Deleting a file that doesn't exist is not an error
+  delete(key: string): Promise<void>;
+  // The public URL clients download the file from
+  url(key: string): string;
+}
+
+// Keys are generated by the app, this only guards against path traversal
+function resolveKey(directory: string, key: string) {
+  const root = path.resolve(directory);
+  const file = path.resolve(root, key);
+
+  if (!file.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+
+  return file;
+}
+
+// Keeps files on disk, the app serves them from express.static in app.ts
+export function fileSystemStorage(options: {
+  directory: string;
+  publicUrl: string;
+}): Storage {
+  return {
+    async put(key, body) {
+      const file = resolveKey(options.directory, key);
+
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+    async delete(key) {
+      try {
+        await fs.unlink(resolveKey(options.directory, key));
+      } catch (e: any) {
+        if (e.code !== "ENOENT") throw e;
+      }
+    },
+    url(key) {
+      return `${options.publicUrl.replace(/\/$/, "")}/${key}`;
+    },
+  };
+}
+
+// Works with AWS and with S3-compatible services such as MinIO
+export function s3Storage(options: {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  publicUrl?: string;
+}): Storage {
+  const client = new S3Client({
+    region: options.region,
+    ...(options.endpoint && { endpoint: options.endpoint }),
+    forcePathStyle: options.forcePathStyle,
+    ...(options.accessKeyId && {
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey || "",
+      },
+    }),
+  });
+
+  const publicUrl =
+    options.publicUrl ||
+    (options.endpoint
+      ? `${options.endpoint.replace(/\/$/, "")}/${options.bucket}`
+      : `https://${options.bucket}.s3.${options.region}.amazonaws.com`);
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    },
+    async delete(key) {
+      await client.send(
+        new DeleteObjectCommand({ Bucket: options.bucket, Key: key })
+      );
+    },
+    url(key) {
+      return `${publicUrl.replace(/\/$/, "")}/${key}`;
+    },
+  };
+}
+
+function createStorage(): Storage {
+  const storage = config.get<string>("images.storage");
+
+  switch (storage) {
+    case "local":
+      return fileSystemStorage(config.get("images.local"));
+    case "s3":
+      return s3Storage(config.get("images.s3"));
+    default:
+      throw new Error(`Unknown image storage: ${storage}`);
+  }
+}
+
+let storage: Storage | undefined;
+
+// Lets tests swap in their own storage
+export function setStorage(imageStorage: Storage) {
+  storage = imageStorage;
+}
+
+export function getStorage() {
+  if (!storage) {
+    storage = createStorage();
+  }
+
+  return storage;
+}
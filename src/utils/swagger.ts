@@ -12,6 +12,16 @@ const options: swaggerJsdoc.Options = {
       version,
     },
     components: {
+      parameters: {
+        // Shared by the POST routes that use the idempotency middleware
+        IdempotencyKey: {
+          name: "Idempotency-Key",
+          in: "header",
+          description:
+            "Makes retrying the request safe, repeats with the same key get the first response back with an Idempotent-Replayed header. A key reused with a different body is refused with 422, and 409 is returned while the first request is still being handled",
+          schema: { type: "string", maxLength: 255 },
+        },
+      },
       securitySchemes: {
         bearerAuth: {
           type: "http",
@@ -0,0 +1,11 @@
+import crypto from "crypto";
+
+// Random tokens that are emailed to users. Only their hash is stored so a
+// leaked database can't be used to reset passwords or verify emails.
+export function generateToken() {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
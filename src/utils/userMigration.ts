@@ -0,0 +1,16 @@
+import log from "./logger";
+import { verifyLegacyUsers } from "../service/user.service";
+
+// Runs at startup, before the routes are registered, so existing users can
+// still log in when emailVerification.required is turned on
+export async function migrateLegacyUsers() {
+  try {
+    const { modifiedCount } = await verifyLegacyUsers();
+
+    if (modifiedCount) {
+      log.info({ modifiedCount }, "Marked existing users as verified");
+    }
+  } catch (e: any) {
+    log.error({ err: e }, "Could not mark existing users as verified");
+  }
+}
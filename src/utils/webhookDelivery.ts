@@ -0,0 +1,36 @@
+import config from "config";
+import log from "./logger";
+import { sendDueWebhookDeliveries } from "../service/webhook.service";
+
+let sending = false;
+
+export async function sendWebhooks() {
+  // A slow batch can outlast the interval, the next run waits for it
+  if (sending) return;
+
+  sending = true;
+
+  try {
+    const batchSize = config.get<number>("webhooks.batchSize");
+    let sent: number;
+
+    // Keep going while there are full batches
+    do {
+      sent = await sendDueWebhookDeliveries();
+    } while (sent === batchSize);
+  } catch (e: any) {
+    log.error({ err: e }, "Could not send webhook deliveries");
+  } finally {
+    sending = false;
+  }
+}
+
+export function startWebhookDelivery() {
+  // How often pending deliveries are sent, in seconds
+  const interval = config.get<number>("webhooks.deliveryInterval");
+
+  sendWebhooks();
+
+  // Doesn't keep the process alive on its own
+  setInterval(sendWebhooks, interval * 1000).unref();
+}
@@ -0,0 +1,187 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { URL } from "url";
+
+export interface WebhookResponse {
+  status: number;
+}
+
+interface PostWebhookOptions {
+  // In milliseconds
+  timeout: number;
+  // Lets the URL resolve to localhost and private networks, for development
+  allowPrivateAddresses: boolean;
+}
+
+type LookupCallback = (
+  err: NodeJS.ErrnoException | null,
+  address: string | dns.LookupAddress[],
+  family?: number
+) => void;
+
+// Resolves the host like the default lookup, but refuses names that resolve
+// to a private address. The socket connects to the address that was checked,
+// so the name can't be pointed somewhere else in between
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: LookupCallback
+) {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(
+        new Error(`${hostname} resolves to a private address`),
+        ""
+      );
+    }
+
+    if (options.all) return callback(null, addresses);
+
+    const [{ address, family }] = addresses;
+
+    return callback(null, address, family);
+  });
+}
+
+// Posts the body and resolves with the response status, whatever it is.
+// Rejects when the endpoint can't be reached, is private or the whole exchange
+// takes longer than timeout
+export function postWebhook(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  { timeout, allowPrivateAddresses }: PostWebhookOptions
+) {
+  return new Promise<WebhookResponse>((resolveRequest, rejectRequest) => {
+    const resolve = (response: WebhookResponse) => {
+      clearTimeout(deadline);
+      resolveRequest(response);
+    };
+
+    const reject = (e: Error) => {
+      clearTimeout(deadline);
+      rejectRequest(e);
+    };
+
+    const target = new URL(url);
+    const client = target.protocol === "https:" ? https : http;
+
+    // IP addresses are connected to without a lookup
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+
+    if (!allowPrivateAddresses && net.isIP(host) && isPrivateAddress(host)) {
+      return rejectRequest(new Error(`${host} is a private address`));
+    }
+
+    const req = client.request(
+      target,
+      {
+        method: "POST",
+        headers: {
+          ...headers,
+          "Content-Type": "application/json",
+          "Content-Length": String(Buffer.byteLength(body)),
+        },
+        ...(!allowPrivateAddresses && {
+          lookup: publicLookup as net.LookupFunction,
+        }),
+      },
+      (res) => {
+        // Only the status matters, the response body is thrown away
+        res.resume();
+        res.on("end", () => resolve({ status: res.statusCode || 0 }));
+        res.on("error", reject);
+      }
+    );
+
+    // Node's own timeout only covers idle sockets, an endpoint that keeps
+    // sending a byte now and then would hold the request open forever
+    const deadline = setTimeout(() => {
+      reject(new Error(`No response within ${timeout}ms`));
+      req.destroy();
+    }, timeout);
+
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function isPrivateIPv4(address: string) {
+  const [a, b] = address.split(".").map(Number);
+
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPrivateIPv6(address: string) {
+  const normalized = address.toLowerCase();
+
+  // IPv4 addresses mapped into IPv6, either ::ffff:127.0.0.1 or the
+  // ::ffff:7f00:1 form URLs are normalized to
+  const mapped = /^::ffff:(.+)$/.exec(normalized);
+
+  if (mapped) {
+    const hex = /^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(mapped[1]);
+
+    if (!hex) return isPrivateIPv4(mapped[1]);
+
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+
+    return isPrivateIPv4(
+      [high >> 8, high & 255, low >> 8, low & 255].join(".")
+    );
+  }
+
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized)
+  );
+}
+
+function isPrivateAddress(address: string) {
+  switch (net.isIP(address)) {
+    case 4:
+      return isPrivateIPv4(address);
+    case 6:
+      return isPrivateIPv6(address);
+    default:
+      return false;
+  }
+}
+
+// Webhooks are sent from inside our network, so they must not point at it.
+// Catches obvious mistakes when the webhook is saved, names are resolved and
+// checked again by postWebhook on every delivery
+export function isPublicWebhookUrl(url: string) {
+  let target: URL;
+
+  try {
+    target = new URL(url);
+  } catch (e) {
+    return false;
+  }
+
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    return false;
+  }
+
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+
+  if (host === "localhost" || host.endsWith(".localhost")) return false;
+
+  return !isPrivateAddress(host);
+}